@@ -1,3 +1,7 @@
+import { getRotatedBoxCorners } from './yolo-obb/common'
+import { Keypoint } from './yolo-pose/common'
+import { getSkeleton, Skeleton } from './yolo-pose/skeleton'
+
 export type DrawBoxArgs = {
   /** canvas context to draw on */
   context: CanvasRenderingContext2D
@@ -46,44 +50,168 @@ export function drawBox(args: DrawBoxArgs) {
   context.strokeRect(left, top, args.width, args.height)
 
   if (label) {
-    let textColor = label.fontColor ?? 'white'
-    let backgroundColor = label.backgroundColor ?? 'transparent'
-    let font = label.font ?? 'normal 900 14px Arial, sans-serif'
-    let text = label.text
-
-    context.font = font
-    let metrics = context.measureText(text)
-    let width = metrics.width
-    let height = metrics.fontBoundingBoxAscent || metrics.actualBoundingBoxAscent || 25
-
-    if (top - lineWidth - height >= 0) {
-      // draw background of text label
-      if (backgroundColor !== 'transparent') {
-        context.fillStyle = backgroundColor
-        context.fillRect(
-          left,
-          top - lineWidth - height,
-          width,
-          height + lineWidth,
-        )
-      }
-    } else {
-      top += height + lineWidth
-      left += lineWidth
-      // draw background of text label
-      if (backgroundColor !== 'transparent') {
-        context.fillStyle = backgroundColor
-        context.fillRect(
-          left,
-          top - lineWidth - height,
-          width,
-          height + lineWidth,
-        )
-      }
-    }
+    drawLabel(context, label, left, top, lineWidth)
+  }
+}
+
+export type DrawRotatedBoxArgs = DrawBoxArgs & {
+  /** rotation angle of the box in radian, clockwise, e.g. `angle` of `OrientedBoundingBox` */
+  angle: number
+}
+
+export function drawRotatedBox(args: DrawRotatedBoxArgs) {
+  let { context, label } = args
+
+  let lineWidth = args.lineWidth ?? 5
+  let borderColor = args.borderColor ?? 'red'
+
+  let corners = getRotatedBoxCorners(args)
+
+  context.lineWidth = lineWidth
+  context.strokeStyle = borderColor
+  context.beginPath()
+  context.moveTo(corners[0][0], corners[0][1])
+  for (let i = 1; i < corners.length; i++) {
+    context.lineTo(corners[i][0], corners[i][1])
+  }
+  context.closePath()
+  context.stroke()
 
-    // draw the text label
-    context.fillStyle = textColor
-    context.fillText(text, left, top - lineWidth)
+  if (label) {
+    // place the label above the top-most corner
+    let [left, top] = corners.reduce((acc, corner) =>
+      corner[1] < acc[1] ? corner : acc,
+    )
+    drawLabel(context, label, left, top, lineWidth)
   }
 }
+
+export type DrawPoseArgs = {
+  /** canvas context to draw on */
+  context: CanvasRenderingContext2D
+
+  /** keypoints of the pose in pixel unit, e.g. `keypoints` of `BoundingBoxWithKeypoints` */
+  keypoints: Keypoint[]
+
+  /**
+   * keypoint names and limb connections, e.g. `cocoSkeleton`, `handSkeleton`, `faceSkeleton` or a custom skeleton.
+   *
+   * default is the built-in skeleton matching the number of keypoints, or only draw the joints if none matched
+   */
+  skeleton?: Skeleton
+
+  /** keypoints with visibility below this threshold are not drawn, together with their limbs, default is 0.5 */
+  visibilityThreshold?: number
+
+  /** fade the joints and limbs by the visibility of the keypoints, default is `true` */
+  fadeByVisibility?: boolean
+
+  /** radius of the joints, in pixel unit, default is 4px */
+  radius?: number
+
+  /** line width of the limbs, in pixel unit, default is 3px */
+  lineWidth?: number
+
+  /** color of the joints when not specified by the skeleton, default is `red` */
+  jointColor?: string
+
+  /** color of the limbs when not specified by the skeleton, default is `lime` */
+  limbColor?: string
+}
+
+export function drawPose(args: DrawPoseArgs) {
+  let { context, keypoints } = args
+
+  let skeleton = args.skeleton ?? getSkeleton(keypoints.length)
+  let visibilityThreshold = args.visibilityThreshold ?? 0.5
+  let fadeByVisibility = args.fadeByVisibility ?? true
+  let radius = args.radius ?? 4
+  let lineWidth = args.lineWidth ?? 3
+  let jointColor = args.jointColor ?? 'red'
+  let limbColor = args.limbColor ?? 'lime'
+
+  function isVisible(keypoint: Keypoint | undefined): keypoint is Keypoint {
+    return !!keypoint && keypoint.visibility >= visibilityThreshold
+  }
+
+  function getAlpha(visibility: number) {
+    return fadeByVisibility ? Math.min(Math.max(visibility, 0), 1) : 1
+  }
+
+  context.save()
+
+  // draw the limbs below the joints
+  context.lineWidth = lineWidth
+  context.lineCap = 'round'
+  let limbs = skeleton?.limbs || []
+  for (let i = 0; i < limbs.length; i++) {
+    let a = keypoints[limbs[i][0]]
+    let b = keypoints[limbs[i][1]]
+    if (!isVisible(a) || !isVisible(b)) continue
+    context.globalAlpha = getAlpha(Math.min(a.visibility, b.visibility))
+    context.strokeStyle = skeleton?.limb_colors?.[i] ?? limbColor
+    context.beginPath()
+    context.moveTo(a.x, a.y)
+    context.lineTo(b.x, b.y)
+    context.stroke()
+  }
+
+  keypoints.forEach((keypoint, i) => {
+    if (!isVisible(keypoint)) return
+    context.globalAlpha = getAlpha(keypoint.visibility)
+    context.fillStyle = skeleton?.keypoint_colors?.[i] ?? jointColor
+    context.beginPath()
+    context.arc(keypoint.x, keypoint.y, radius, 0, Math.PI * 2)
+    context.fill()
+  })
+
+  context.restore()
+}
+
+function drawLabel(
+  context: CanvasRenderingContext2D,
+  label: NonNullable<DrawBoxArgs['label']>,
+  left: number,
+  top: number,
+  lineWidth: number,
+) {
+  let textColor = label.fontColor ?? 'white'
+  let backgroundColor = label.backgroundColor ?? 'transparent'
+  let font = label.font ?? 'normal 900 14px Arial, sans-serif'
+  let text = label.text
+
+  context.font = font
+  let metrics = context.measureText(text)
+  let width = metrics.width
+  let height = metrics.fontBoundingBoxAscent || metrics.actualBoundingBoxAscent || 25
+
+  if (top - lineWidth - height >= 0) {
+    // draw background of text label
+    if (backgroundColor !== 'transparent') {
+      context.fillStyle = backgroundColor
+      context.fillRect(
+        left,
+        top - lineWidth - height,
+        width,
+        height + lineWidth,
+      )
+    }
+  } else {
+    top += height + lineWidth
+    left += lineWidth
+    // draw background of text label
+    if (backgroundColor !== 'transparent') {
+      context.fillStyle = backgroundColor
+      context.fillRect(
+        left,
+        top - lineWidth - height,
+        width,
+        height + lineWidth,
+      )
+    }
+  }
+
+  // draw the text label
+  context.fillStyle = textColor
+  context.fillText(text, left, top - lineWidth)
+}
@@ -118,7 +118,6 @@ async function main_box() {
       model,
       pixels: image,
       maxOutputSize,
-      num_classes: model.class_names!.length,
       scoreThreshold,
       iouThreshold,
     })
@@ -131,7 +130,6 @@ async function main_box() {
     model,
     pixels: image,
     maxOutputSize,
-    num_classes: model.class_names!.length,
     scoreThreshold,
     iouThreshold,
   })
@@ -193,9 +191,6 @@ async function main_pose() {
       model,
       pixels: image,
       maxOutputSize,
-      num_classes: model.class_names!.length,
-      num_keypoints: model.keypoints!,
-      visibility: model.visibility!,
     })
     console.timeEnd('detectPose')
   }
@@ -206,9 +201,6 @@ async function main_pose() {
     model,
     pixels: image,
     maxOutputSize,
-    num_classes: model.class_names!.length,
-    num_keypoints: model.keypoints!,
-    visibility: model.visibility!,
   })
   console.log({ predictions })
 
@@ -287,7 +279,6 @@ async function main_segment() {
       model,
       pixels: image,
       maxOutputSize,
-      num_classes: model.class_names!.length,
       scoreThreshold,
       iouThreshold,
     })
@@ -300,7 +291,6 @@ async function main_segment() {
     model,
     pixels: image,
     maxOutputSize,
-    num_classes: model.class_names!.length,
     scoreThreshold,
     iouThreshold,
   })
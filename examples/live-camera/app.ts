@@ -1,16 +1,14 @@
 import * as tf from '@tensorflow/tfjs'
 import {
   ModelWithMetadata,
-  detectBox,
-  detectPose,
+  predict,
   loadTextFromUrl,
   loadYoloModel,
   ModelMetadata,
   parseMetadataYaml,
   BoundingBox,
-  detectSegment,
-  combineMask,
-  hasOverlap,
+  processMask,
+  drawPose,
 } from '../../browser'
 
 async function main() {
@@ -185,101 +183,55 @@ async function main() {
       )
     }
 
-    if (model.task == 'detect') {
-      let batches = await detectBox({
-        model,
-        tf,
-        pixels: snapshot_canvas,
-        num_classes: model.class_names!.length,
-        scoreThreshold: confidence_threshold,
-        maxOutputSize: 1,
-      })
+    let result = await predict({
+      model,
+      tf,
+      pixels: snapshot_canvas,
+      coordinate: 'source',
+      scoreThreshold: confidence_threshold,
+      maxOutputSize: 1,
+    })
+
+    if (result.task == 'detect') {
       drawSnapshot()
-      for (let boxes of batches) {
+      for (let boxes of result.boxes) {
         for (let box of boxes) {
           drawBox(box)
         }
       }
     }
 
-    if (model.task == 'pose') {
-      let batches = await detectPose({
-        model,
-        tf,
-        pixels: snapshot_canvas,
-        num_classes: model.class_names!.length,
-        num_keypoints: model.keypoints!,
-        visibility: model.visibility!,
-        scoreThreshold: confidence_threshold,
-        maxOutputSize: 1,
-      })
+    if (result.task == 'pose') {
       drawSnapshot()
-      for (let boxes of batches) {
+      for (let boxes of result.poses) {
         for (let box of boxes) {
           drawBox(box)
-          for (let keypoint of box.keypoints) {
-            let width = 10
-            let height = 10
-            camera_context.strokeStyle = 'green'
-            camera_context.lineWidth = 3
-            camera_context.strokeRect(
-              keypoint.x - width / 2,
-              keypoint.y - height / 2,
-              width,
-              height,
-            )
-          }
+          drawPose({ context: camera_context, keypoints: box.keypoints })
         }
       }
     }
 
-    if (model.task == 'segment') {
-      let batches = await detectSegment({
-        model,
-        tf,
-        pixels: snapshot_canvas,
-        num_classes: model.class_names!.length,
-        scoreThreshold: confidence_threshold,
-        maxOutputSize: 1,
-      })
-      let canvas = dom.camera_canvas
-      console.log({
-        pix: snapshot_canvas.width,
-        out: canvas.width,
-      })
+    if (result.task == 'segment') {
       drawSnapshot()
-      for (let { bounding_boxes, masks } of batches) {
+      for (let { bounding_boxes, masks } of result.segments) {
         for (let box of bounding_boxes) {
           drawBox(box)
-          let boxRect = {
-            left: box.x - box.width / 2,
-            top: box.y - box.height / 2,
-            right: box.x + box.width / 2,
-            bottom: box.y + box.height / 2,
-          }
-          let mask = combineMask(box, masks)
-          let H = mask.length
-          let W = mask[0].length
-          for (let h = 0; h < H; h++) {
-            for (let w = 0; w < W; w++) {
-              let width = canvas.width / W
-              let height = canvas.height / H
-
-              let left = (w / W) * canvas.width
-              let top = (h / H) * canvas.height
-
-              let right = left + width
-              let bottom = top + height
-
-              let maskRect = { left, top, right, bottom }
-
-              if (!hasOverlap(boxRect, maskRect)) {
-                // continue
-              }
-
-              let v = mask[h][w]
-              camera_context.fillStyle = `rgba(0,255,0,${v})`
-              camera_context.fillRect(left, top, width, height)
+          let mask = processMask(box, {
+            masks,
+            image_shape: {
+              width: snapshot_canvas.width,
+              height: snapshot_canvas.height,
+            },
+          })
+          // fill each horizontal run of the mask at once
+          camera_context.fillStyle = 'rgba(0,255,0,0.5)'
+          for (let y = 0; y < mask.length; y++) {
+            let row = mask[y]
+            for (let x = 0; x < row.length; x++) {
+              if (!row[x]) continue
+              let start = x
+              while (row[x + 1]) x++
+              camera_context.fillRect(start, y, x - start + 1, 1)
             }
           }
         }
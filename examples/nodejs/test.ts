@@ -17,9 +17,6 @@ async function main() {
         file,
         model,
         maxOutputSize: 1,
-        num_classes: model.class_names!.length,
-        num_keypoints: model.keypoints!,
-        visibility: model.visibility!,
       })
       console.timeEnd('detectPose')
     }
@@ -30,9 +27,6 @@ async function main() {
     file,
     model,
     maxOutputSize: 1,
-    num_classes: model.class_names!.length,
-    num_keypoints: model.keypoints!,
-    visibility: model.visibility!,
   })
   console.log('predictions[0][0]:')
   console.dir(predictions[0][0], { depth: 0 })
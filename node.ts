@@ -9,6 +9,26 @@ export * from './yolo-box/common'
 
 export * from './yolo-pose/node'
 export * from './yolo-pose/common'
+export * from './yolo-pose/skeleton'
+export * from './yolo-pose/geometry'
+export * from './yolo-pose/oks'
 
 export * from './yolo-segment/node'
 export * from './yolo-segment/common'
+export * from './yolo-segment/polygon'
+export * from './yolo-segment/rle'
+export * from './yolo-segment/morphology'
+export * from './yolo-segment/statistics'
+
+export * from './yolo-obb/node'
+export * from './yolo-obb/common'
+
+export * from './yolo-predict/node'
+export * from './yolo-predict/common'
+
+export * from './yolo-slice/node'
+export * from './yolo-slice/common'
+
+export * from './yolo-track/common'
+
+export * from './yolo-smooth/common'
@@ -1,4 +1,6 @@
+import type * as tf_type from '@tensorflow/tfjs'
 import type { InferenceModel, Tensor } from '@tensorflow/tfjs'
+import { isYamlObject, parseYaml, YamlValue } from './yaml'
 
 export function getModelInputShape(model: InferenceModel) {
   if (model.inputs.length !== 1) {
@@ -15,24 +17,83 @@ export function getModelInputShape(model: InferenceModel) {
   return { height, width }
 }
 
-export function getImageSize(input: Tensor) {
+export function getImageSize(input: Tensor): ImageSize {
+  let shape = input.shape as number[]
+
   // [batch, height, width, channels]
   if (input.rank === 4) {
-    let height = input.shape[1]
-    let width = input.shape[2]
+    let height = shape[1]
+    let width = shape[2]
     return { height, width }
   }
 
   // [height, width, channels]
   if (input.rank === 3) {
-    let height = input.shape[0]
-    let width = input.shape[1]
+    let height = shape[0]
+    let width = shape[1]
     return { height, width }
   }
 
   throw new Error(`input rank should be 3 or 4, but got ${input.rank}`)
 }
 
+export type ImageSize = { width: number; height: number }
+
+/**
+ * How to fit the image into the input_shape of the model:
+ * - `'stretch'`: resize the image to the input_shape directly, the aspect ratio may be distorted
+ * - `'letterbox'`: keep the aspect ratio and pad the remaining area with gray color (114), same as Ultralytics
+ */
+export type ResizeMode = 'stretch' | 'letterbox'
+
+/** how the source image is placed into the input_shape */
+export type InputTransform = {
+  /** size of the original image, in pixel unit */
+  source_shape: ImageSize
+  /** size of the model input, in pixel unit */
+  input_shape: ImageSize
+  /** input pixels per source pixel on x-axis */
+  scale_x: number
+  /** input pixels per source pixel on y-axis */
+  scale_y: number
+  /** padding on the left side, in input pixel unit */
+  pad_left: number
+  /** padding on the top side, in input pixel unit */
+  pad_top: number
+}
+
+export function getInputTransform(
+  source_shape: ImageSize,
+  input_shape: ImageSize,
+  /** default: `'stretch'` */
+  resize_mode: ResizeMode = 'stretch',
+): InputTransform {
+  if (resize_mode === 'letterbox') {
+    let scale = Math.min(
+      input_shape.width / source_shape.width,
+      input_shape.height / source_shape.height,
+    )
+    let width = Math.round(source_shape.width * scale)
+    let height = Math.round(source_shape.height * scale)
+    return {
+      source_shape,
+      input_shape,
+      scale_x: scale,
+      scale_y: scale,
+      pad_left: Math.floor((input_shape.width - width) / 2),
+      pad_top: Math.floor((input_shape.height - height) / 2),
+    }
+  }
+  return {
+    source_shape,
+    input_shape,
+    scale_x: input_shape.width / source_shape.width,
+    scale_y: input_shape.height / source_shape.height,
+    pad_left: 0,
+    pad_top: 0,
+  }
+}
+
 /** normalize color and resize/expand into shape: [batch, height, width, channels] */
 export function preprocessInput(
   /**
@@ -42,12 +103,18 @@ export function preprocessInput(
    */
   input: Tensor,
   input_shape: { height: number; width: number },
+  /** default: `'stretch'` */
+  resize_mode: ResizeMode = 'stretch',
 ) {
   // expand batch dimension if input is 2D
   if (input.rank === 3) {
     input = input.expandDims()
   }
 
+  if (resize_mode === 'letterbox') {
+    input = letterboxInput(input, input_shape)
+  }
+
   // resize input to input_shape if necessary
   let input_height = input.shape[1]
   let input_width = input.shape[2]
@@ -64,16 +131,232 @@ export function preprocessInput(
   return input
 }
 
+/** resize with same aspect ratio and pad to input_shape, input shape: [batch, height, width, channels] */
+function letterboxInput(input: Tensor, input_shape: ImageSize) {
+  let source_shape = getImageSize(input)
+  let transform = getInputTransform(source_shape, input_shape, 'letterbox')
+
+  let width = Math.round(source_shape.width * transform.scale_x)
+  let height = Math.round(source_shape.height * transform.scale_y)
+  if (width !== source_shape.width || height !== source_shape.height) {
+    input = input.resizeBilinear([height, width])
+  }
+
+  let pad_left = transform.pad_left
+  let pad_top = transform.pad_top
+  let pad_right = input_shape.width - width - pad_left
+  let pad_bottom = input_shape.height - height - pad_top
+  if (pad_left || pad_top || pad_right || pad_bottom) {
+    input = input.pad(
+      [
+        [0, 0],
+        [pad_top, pad_bottom],
+        [pad_left, pad_right],
+        [0, 0],
+      ],
+      114,
+    )
+  }
+
+  return input
+}
+
+/** one of the augmented copies of the input for test-time augmentation */
+export type Augmentation = {
+  /** whether the image is flipped horizontally */
+  flip: boolean
+  /**
+   * scale of the image within the input_shape,
+   * the remaining area on the right and bottom is padded with gray color (114)
+   */
+  scale: number
+}
+
+/** same as Ultralytics: the original image, flipped image at 0.83 scale, and the image at 0.67 scale */
+export const defaultAugmentations: Augmentation[] = [
+  { flip: false, scale: 1 },
+  { flip: true, scale: 0.83 },
+  { flip: false, scale: 0.67 },
+]
+
+/** resolve the `augment` option of detect functions */
+export function getAugmentations(augment: true | Augmentation[]) {
+  return augment === true ? defaultAugmentations : augment
+}
+
+/** input shape: [batch, height, width, channels], normalized to 0..1 */
+export function augmentInput(input: Tensor, augmentation: Augmentation) {
+  let { width, height } = getImageSize(input)
+  if (augmentation.flip) {
+    input = input.reverse(2)
+  }
+  if (augmentation.scale !== 1) {
+    let scaled_width = Math.round(width * augmentation.scale)
+    let scaled_height = Math.round(height * augmentation.scale)
+    input = input.resizeBilinear([scaled_height, scaled_width]).pad(
+      [
+        [0, 0],
+        [0, height - scaled_height],
+        [0, width - scaled_width],
+        [0, 0],
+      ],
+      114 / 255,
+    )
+  }
+  return input
+}
+
+/**
+ * map the raw output of the augmented input back to the input_shape pixel unit.
+ *
+ * output shape: [batch, features, instances]
+ *
+ * Should be called within `tf.tidy()`.
+ */
+export function deaugmentOutput(args: {
+  tf: typeof tf_type
+  output: Tensor
+  augmentation: Augmentation
+  input_shape: ImageSize
+  /** indices of the features of x-coordinate, e.g. box center and keypoints */
+  x_features: number[]
+  /** indices of the features of y-coordinate */
+  y_features: number[]
+  /** indices of the features of width and height */
+  size_features: [width: number, height: number]
+  /**
+   * when flipped, feature i is taken from feature `flip_features[i]`,
+   * e.g. left eye <-> right eye
+   */
+  flip_features?: number[]
+}): Tensor {
+  let { tf, augmentation, input_shape } = args
+  let { flip, scale } = augmentation
+  let num_features = args.output.shape[1]!
+  // the actual scale after rounding to pixels, same as augmentInput()
+  let scale_x = Math.round(input_shape.width * scale) / input_shape.width
+  let scale_y = Math.round(input_shape.height * scale) / input_shape.height
+
+  // feature = feature * multiplier + offset
+  let multiplier = new Array(num_features).fill(1)
+  let offset = new Array(num_features).fill(0)
+  for (let i of args.x_features) {
+    multiplier[i] = flip ? -1 / scale_x : 1 / scale_x
+    offset[i] = flip ? input_shape.width : 0
+  }
+  for (let i of args.y_features) {
+    multiplier[i] = 1 / scale_y
+  }
+  let [width_feature, height_feature] = args.size_features
+  multiplier[width_feature] = 1 / scale_x
+  multiplier[height_feature] = 1 / scale_y
+
+  let output = args.output
+  if (flip && args.flip_features) {
+    output = output.gather(args.flip_features, 1)
+  }
+  return output
+    .mul(tf.tensor3d(multiplier, [1, num_features, 1]))
+    .add(tf.tensor3d(offset, [1, num_features, 1]))
+}
+
+/**
+ * Coordinate space of the returned boxes, keypoints and masks:
+ * - `'input'`: pixel unit of the input_shape (including the letterbox padding)
+ * - `'source'`: pixel unit of the original image
+ * - `'normalized'`: relative to the original image, in the range of [0, 1]
+ */
+export type CoordinateSpace = 'input' | 'source' | 'normalized'
+
+/** default is `'source'` for letterbox resize mode, otherwise `'input'` */
+export function getCoordinateSpace(args: {
+  coordinate?: CoordinateSpace
+  resize_mode?: ResizeMode
+}): CoordinateSpace {
+  if (args.coordinate) return args.coordinate
+  return args.resize_mode === 'letterbox' ? 'source' : 'input'
+}
+
+/**
+ * map a point from input_shape pixel unit to the given coordinate space.
+ *
+ * The point is updated in-place.
+ */
+export function mapPoint(
+  point: { x: number; y: number },
+  transform: InputTransform,
+  coordinate: CoordinateSpace,
+) {
+  if (coordinate === 'input') return
+  let x = (point.x - transform.pad_left) / transform.scale_x
+  let y = (point.y - transform.pad_top) / transform.scale_y
+  if (coordinate === 'normalized') {
+    x /= transform.source_shape.width
+    y /= transform.source_shape.height
+  }
+  point.x = x
+  point.y = y
+}
+
+/**
+ * map the center and size of a box from input_shape pixel unit to the given coordinate space.
+ *
+ * The box is updated in-place.
+ */
+export function mapBox(
+  box: { x: number; y: number; width: number; height: number },
+  transform: InputTransform,
+  coordinate: CoordinateSpace,
+) {
+  if (coordinate === 'input') return
+  mapPoint(box, transform, coordinate)
+  let width = box.width / transform.scale_x
+  let height = box.height / transform.scale_y
+  if (coordinate === 'normalized') {
+    width /= transform.source_shape.width
+    height /= transform.source_shape.height
+  }
+  box.width = width
+  box.height = height
+}
+
 export type ModelMetadata = {
-  task?: 'detect' | 'pose' | 'segment' | string
+  task?: 'detect' | 'pose' | 'segment' | 'classify' | 'obb' | string
   class_names?: string[]
+  /** number of keypoints, from `kpt_shape[0]` */
   keypoints?: number
+  /** whether each keypoint has visibility, from `kpt_shape[1] == 3` */
   visibility?: boolean
+  /**
+   * for each keypoint, the index of the mirrored keypoint when the image is flipped horizontally,
+   * e.g. left eye <-> right eye
+   */
+  flip_idx?: number[]
+  /** input image size of the exported model, from `imgsz` */
+  input_shape?: ImageSize
+  /** max stride of the model, e.g. `32` */
+  stride?: number
+  /** batch size of the exported model */
+  batch?: number
+  /** whether the model has end-to-end (NMS-free) head, e.g. YOLOv10, from `end2end` */
+  end_to_end?: boolean
+  /** export arguments, from `args` */
+  export_args?: {
+    /** whether the non-max suppression is included in the exported model */
+    nms?: boolean
+    /** whether the model is exported with FP16 quantization */
+    half?: boolean
+    /** whether the model is exported with INT8 quantization */
+    int8?: boolean
+    batch?: number
+  }
 }
+
 /**
  * example of segmentation model:
  * ```
  * version: 8.3.83
+ * stride: 32
  * task: segment
  * batch: 1
  * imgsz:
@@ -83,6 +366,7 @@ export type ModelMetadata = {
  *   0: person
  *   1: bicycle
  *   2: car
+ *   9: 'traffic light: red'
  * args:
  *   batch: 1
  *   half: false
@@ -96,16 +380,35 @@ export type ModelMetadata = {
  * kpt_shape:
  * - 17
  * - 3
+ * flip_idx:
+ * - 0
+ * - 2
+ * - 1
  * ```
  */
 export function parseMetadataYaml(text: string): ModelMetadata {
-  let lines = parseLines(text)
+  let yaml = parseYaml(text)
+  if (!isYamlObject(yaml)) {
+    return {}
+  }
+
+  let metadata: ModelMetadata = {}
 
-  // e.g. "task: pose" -> "pose"
-  let task = lines
-    .find(line => line.startsWith('task:'))
-    ?.split(':')[1]
-    .trim()
+  if (typeof yaml.task === 'string') {
+    metadata.task = yaml.task
+  }
+
+  // e.g. { 0: 'person', 1: 'bicycle' } or ['person', 'bicycle']
+  let names = yaml.names
+  if (Array.isArray(names)) {
+    metadata.class_names = names.map(name => String(name))
+  } else if (isYamlObject(names)) {
+    let class_names: string[] = []
+    for (let [index, name] of Object.entries(names)) {
+      class_names[+index] = String(name)
+    }
+    metadata.class_names = class_names
+  }
 
   /**
    * e.g.
@@ -115,43 +418,122 @@ export function parseMetadataYaml(text: string): ModelMetadata {
    * - 3  # number of dimensions per keypoint, 2 for {x,y}, 3 for {x,y,visibility}
    * ```
    */
-  let index = lines.indexOf('kpt_shape:')
-  let keypoints = index == -1 ? undefined : parseIntFromLine(lines[index + 1])
-  let visibility =
-    index == -1 ? undefined : parseIntFromLine(lines[index + 2]) == 3
-
-  // e.g. "names:"
-  index = lines.indexOf('names:')
-  let class_names: string[] = []
-  for (let i = index + 1; i < lines.length; i++) {
-    // e.g. "  0: person" -> "person" or "args: ..."
-    let line = lines[i].trim()
-    let idx = parseInt(line)
-    if (Number.isNaN(idx)) {
-      break
+  let kpt_shape = toNumberArray(yaml.kpt_shape)
+  if (kpt_shape && kpt_shape.length === 2) {
+    metadata.keypoints = kpt_shape[0]
+    metadata.visibility = kpt_shape[1] === 3
+  }
+
+  let flip_idx = toNumberArray(yaml.flip_idx)
+  if (flip_idx) {
+    metadata.flip_idx = flip_idx
+  }
+
+  // e.g. [640, 640] for [height, width], or 640 for square image
+  let imgsz =
+    typeof yaml.imgsz === 'number' ? [yaml.imgsz] : toNumberArray(yaml.imgsz)
+  if (imgsz && imgsz.length > 0) {
+    metadata.input_shape = {
+      height: imgsz[0],
+      width: imgsz[1] ?? imgsz[0],
     }
-    let name = line.replace(String(idx), '').replace(':', '').trim()
-    class_names[idx] = name
   }
 
-  return { task, class_names, keypoints, visibility }
-}
+  if (typeof yaml.stride === 'number') {
+    metadata.stride = yaml.stride
+  }
 
-// e.g. "  - 17" -> 17
-function parseIntFromLine(line: string) {
-  return parseInt(line.replace('-', '').trim())
+  if (typeof yaml.batch === 'number') {
+    metadata.batch = yaml.batch
+  }
+
+  if (typeof yaml.end2end === 'boolean') {
+    metadata.end_to_end = yaml.end2end
+  }
+
+  let args = yaml.args
+  if (isYamlObject(args)) {
+    let export_args: ModelMetadata['export_args'] = {}
+    if (typeof args.nms === 'boolean') export_args.nms = args.nms
+    if (typeof args.half === 'boolean') export_args.half = args.half
+    if (typeof args.int8 === 'boolean') export_args.int8 = args.int8
+    if (typeof args.batch === 'number') export_args.batch = args.batch
+    metadata.export_args = export_args
+  }
+
+  return metadata
 }
 
-// skip empty line and comment lines starting with '#'
-function parseLines(text: string) {
-  return text
-    .split('\n')
-    .map(line => line.trim())
-    .filter(line => line.length > 0 && !line.startsWith('#'))
+function toNumberArray(value: YamlValue | undefined): number[] | undefined {
+  if (Array.isArray(value) && value.every(item => typeof item === 'number')) {
+    return value as number[]
+  }
 }
 
 export type ModelWithMetadata<T extends InferenceModel> = T & ModelMetadata
 
+/** read the metadata attached by `loadYoloModel()`, all fields are undefined for plain models */
+export function getModelMetadata(model: InferenceModel): ModelMetadata {
+  let metadata: ModelMetadata = model as ModelWithMetadata<InferenceModel>
+  return metadata
+}
+
+/** e.g. [1, 84, 8400] for the batched output of `tensor.arraySync()` */
+export function getArrayShape(output: number[][][]): number[] {
+  return [output.length, output[0]?.length ?? 0, output[0]?.[0]?.length ?? 0]
+}
+
+/**
+ * Whether the output is in end-to-end layout: [batch, max_det, features], e.g. [1, 300, 6],
+ * instead of the raw layout: [batch, features, instances], e.g. [1, 84, 8400].
+ *
+ * The end-to-end features are 6 (x1, y1, x2, y2, confidence, class_index) followed by the extra features,
+ * so the raw output with few instances, e.g. [1, 84, 21], is not mistaken as end-to-end.
+ */
+export function isEndToEndShape(
+  output_shape: number[],
+  /**
+   * number of features after the 6 box features, e.g.
+   * - `0` for box output
+   * - `num_channels` for segment output
+   * - `num_keypoints * 3` for pose output with visibility
+   *
+   * any number of extra features is accepted when undefined
+   */
+  extra_features: number | undefined,
+): boolean {
+  let num_features = output_shape[2]
+  if (
+    extra_features === undefined
+      ? num_features < 6
+      : num_features !== 6 + extra_features
+  ) {
+    return false
+  }
+  return output_shape[1] > num_features
+}
+
+/**
+ * Whether the output is in end-to-end layout, e.g. exported with `nms=True` or YOLOv10 style heads.
+ *
+ * Decided by the args, model metadata, or output shape (in this order of priority).
+ */
+export function isEndToEndOutput(
+  args: { end_to_end?: boolean },
+  model: InferenceModel,
+  output_shape: number[],
+  /** same as `isEndToEndShape()` */
+  extra_features: number | undefined,
+): boolean {
+  let metadata = getModelMetadata(model)
+  return (
+    args.end_to_end ??
+    metadata.end_to_end ??
+    metadata.export_args?.nms ??
+    isEndToEndShape(output_shape, extra_features)
+  )
+}
+
 export function combineModelAndMetadata<T extends InferenceModel>(
   model: T,
   metadata: ModelMetadata,
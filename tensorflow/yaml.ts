@@ -0,0 +1,438 @@
+export type YamlValue =
+  null | boolean | number | string | YamlValue[] | { [key: string]: YamlValue }
+
+export type YamlObject = { [key: string]: YamlValue }
+
+/**
+ * Parse the subset of YAML used in `metadata.yaml` of exported models:
+ * - block mappings and block sequences (nested by indentation)
+ * - flow sequences and flow mappings, e.g. `[640, 640]`, `{ nms: false }`
+ * - plain, single-quoted and double-quoted scalars, e.g. `'traffic light: red'`
+ * - comments starting with `#`
+ *
+ * Anchors, tags, multi-line strings and multiple documents are not supported.
+ */
+export function parseYaml(text: string): YamlValue {
+  let lines = parseLines(text)
+  if (lines.length === 0) {
+    return null
+  }
+  let parser = new BlockParser(lines)
+  let value = parser.parseBlock(lines[0].indent)
+  if (parser.index < lines.length) {
+    let line = lines[parser.index]
+    throw new Error(
+      `unexpected indentation at line ${line.line_no}: "${line.content}"`,
+    )
+  }
+  return value
+}
+
+export function isYamlObject(
+  value: YamlValue | undefined,
+): value is YamlObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+type Line = {
+  /** 1-based line number, for error message */
+  line_no: number
+  /** number of leading spaces */
+  indent: number
+  /** content without indentation and comment */
+  content: string
+}
+
+// skip empty lines, comment lines and document markers
+function parseLines(text: string): Line[] {
+  let lines: Line[] = []
+  text.split('\n').forEach((text, i) => {
+    let content = stripComment(text).trimEnd()
+    let trimmed = content.trimStart()
+    if (trimmed.length === 0 || trimmed === '---' || trimmed === '...') {
+      return
+    }
+    let indent = content.length - trimmed.length
+    lines.push({ line_no: i + 1, indent, content: trimmed })
+  })
+  return lines
+}
+
+// e.g. "  0: person # comment" -> "  0: person"
+function stripComment(text: string): string {
+  let quote = ''
+  for (let i = 0; i < text.length; i++) {
+    let char = text[i]
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++
+      } else if (char === quote) {
+        quote = ''
+      }
+    } else if ((char === '"' || char === "'") && isTokenStart(text, i)) {
+      quote = char
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i)
+    }
+  }
+  return text
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ')
+}
+
+/**
+ * find the index of ':' separating the key and value of a mapping entry,
+ * skipping quoted strings and flow collections.
+ *
+ * returns -1 if the content is not a mapping entry.
+ */
+function findKeySeparator(content: string): number {
+  let quote = ''
+  let depth = 0
+  for (let i = 0; i < content.length; i++) {
+    let char = content[i]
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++
+      } else if (char === quote) {
+        quote = ''
+      }
+    } else if ((char === '"' || char === "'") && isTokenStart(content, i)) {
+      quote = char
+    } else if (char === '[' || char === '{') {
+      depth++
+    } else if (char === ']' || char === '}') {
+      depth--
+    } else if (
+      char === ':' &&
+      depth === 0 &&
+      (i + 1 === content.length || content[i + 1] === ' ')
+    ) {
+      return i
+    }
+  }
+  return -1
+}
+
+// quotes only start a string at the beginning of a token, e.g. not in "it's"
+function isTokenStart(content: string, index: number): boolean {
+  return index === 0 || /[\s,[{:]/.test(content[index - 1])
+}
+
+class BlockParser {
+  index = 0
+
+  constructor(public lines: Line[]) {}
+
+  parseBlock(indent: number): YamlValue {
+    let line = this.lines[this.index]
+    if (isSequenceItem(line.content)) {
+      return this.parseSequence(indent)
+    }
+    if (findKeySeparator(line.content) !== -1) {
+      return this.parseMapping(indent)
+    }
+    this.index++
+    return parseInlineValue(line.content, line)
+  }
+
+  parseSequence(indent: number): YamlValue[] {
+    let sequence: YamlValue[] = []
+    while (this.index < this.lines.length) {
+      let line = this.lines[this.index]
+      if (line.indent !== indent || !isSequenceItem(line.content)) {
+        break
+      }
+      let rest = line.content.slice(1).trimStart()
+      if (rest.length === 0) {
+        this.index++
+        sequence.push(this.parseNested(indent, false))
+        continue
+      }
+      if (isSequenceItem(rest) || findKeySeparator(rest) !== -1) {
+        // e.g. "- name: value", treat the rest as a nested block
+        this.lines[this.index] = {
+          line_no: line.line_no,
+          indent: indent + line.content.length - rest.length,
+          content: rest,
+        }
+        sequence.push(this.parseBlock(this.lines[this.index].indent))
+        continue
+      }
+      this.index++
+      sequence.push(parseInlineValue(rest, line))
+    }
+    return sequence
+  }
+
+  parseMapping(indent: number): YamlObject {
+    let mapping: YamlObject = {}
+    while (this.index < this.lines.length) {
+      let line = this.lines[this.index]
+      if (line.indent !== indent || isSequenceItem(line.content)) {
+        break
+      }
+      let separator = findKeySeparator(line.content)
+      if (separator === -1) {
+        throw new Error(
+          `expect "key: value" at line ${line.line_no}: "${line.content}"`,
+        )
+      }
+      let key = parseKey(line.content.slice(0, separator).trim(), line)
+      let value = line.content.slice(separator + 1).trim()
+      this.index++
+      mapping[key] =
+        value.length === 0
+          ? this.parseNested(indent, true)
+          : parseInlineValue(value, line)
+    }
+    return mapping
+  }
+
+  /** parse the value of "key:" or "-" on the following lines */
+  parseNested(indent: number, allow_same_indent_sequence: boolean): YamlValue {
+    let next = this.lines[this.index]
+    if (!next) {
+      return null
+    }
+    if (next.indent > indent) {
+      return this.parseBlock(next.indent)
+    }
+    // e.g. "imgsz:\n- 640\n- 640"
+    if (
+      allow_same_indent_sequence &&
+      next.indent === indent &&
+      isSequenceItem(next.content)
+    ) {
+      return this.parseSequence(indent)
+    }
+    return null
+  }
+}
+
+function parseKey(text: string, line: Line): string {
+  let key = parseInlineValue(text, line)
+  return typeof key === 'string' ? key : String(key)
+}
+
+function parseInlineValue(text: string, line: Line): YamlValue {
+  let parser = new FlowParser(text, line)
+  let value = parser.parseValue(false)
+  parser.skipSpaces()
+  if (parser.index < text.length) {
+    parser.fail('unexpected trailing characters')
+  }
+  return value
+}
+
+class FlowParser {
+  index = 0
+
+  constructor(
+    public text: string,
+    public line: Line,
+  ) {}
+
+  fail(message: string): never {
+    throw new Error(
+      `${message} at line ${this.line.line_no}, column ${this.line.indent + this.index + 1}: "${this.line.content}"`,
+    )
+  }
+
+  skipSpaces() {
+    while (this.text[this.index] === ' ' || this.text[this.index] === '\t') {
+      this.index++
+    }
+  }
+
+  parseValue(in_flow: boolean): YamlValue {
+    this.skipSpaces()
+    let char = this.text[this.index]
+    if (char === '[') return this.parseFlowSequence()
+    if (char === '{') return this.parseFlowMapping()
+    if (char === '"') return this.parseDoubleQuoted()
+    if (char === "'") return this.parseSingleQuoted()
+    return resolvePlainScalar(this.parsePlain(in_flow))
+  }
+
+  parsePlain(in_flow: boolean): string {
+    let start = this.index
+    while (this.index < this.text.length) {
+      let char = this.text[this.index]
+      if (in_flow && (char === ',' || char === ']' || char === '}')) {
+        break
+      }
+      if (
+        in_flow &&
+        char === ':' &&
+        /[\s,\]}]/.test(this.text[this.index + 1] ?? ' ')
+      ) {
+        break
+      }
+      this.index++
+    }
+    return this.text.slice(start, this.index).trim()
+  }
+
+  parseDoubleQuoted(): string {
+    let value = ''
+    this.index++
+    while (this.index < this.text.length) {
+      let char = this.text[this.index++]
+      if (char === '"') {
+        return value
+      }
+      if (char !== '\\') {
+        value += char
+        continue
+      }
+      let escape = this.text[this.index++]
+      switch (escape) {
+        case 'n':
+          value += '\n'
+          break
+        case 't':
+          value += '\t'
+          break
+        case 'r':
+          value += '\r'
+          break
+        case '0':
+          value += '\0'
+          break
+        case 'x':
+        case 'u':
+        case 'U': {
+          let length = escape === 'x' ? 2 : escape === 'u' ? 4 : 8
+          let hex = this.text.slice(this.index, this.index + length)
+          if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) {
+            this.fail(`invalid escape sequence "\\${escape}${hex}"`)
+          }
+          value += String.fromCodePoint(parseInt(hex, 16))
+          this.index += length
+          break
+        }
+        case undefined:
+          this.fail('unterminated double-quoted string')
+        default:
+          // e.g. \" \\ \/
+          value += escape
+      }
+    }
+    this.fail('unterminated double-quoted string')
+  }
+
+  parseSingleQuoted(): string {
+    let value = ''
+    this.index++
+    while (this.index < this.text.length) {
+      let char = this.text[this.index++]
+      if (char !== "'") {
+        value += char
+        continue
+      }
+      // e.g. 'it''s' -> it's
+      if (this.text[this.index] === "'") {
+        value += "'"
+        this.index++
+        continue
+      }
+      return value
+    }
+    this.fail('unterminated single-quoted string')
+  }
+
+  parseFlowSequence(): YamlValue[] {
+    let sequence: YamlValue[] = []
+    this.index++
+    for (;;) {
+      this.skipSpaces()
+      if (this.text[this.index] === ']') {
+        this.index++
+        return sequence
+      }
+      sequence.push(this.parseValue(true))
+      this.skipSeparator(']')
+    }
+  }
+
+  parseFlowMapping(): YamlObject {
+    let mapping: YamlObject = {}
+    this.index++
+    for (;;) {
+      this.skipSpaces()
+      if (this.text[this.index] === '}') {
+        this.index++
+        return mapping
+      }
+      let key = this.parseValue(true)
+      this.skipSpaces()
+      let value: YamlValue = null
+      if (this.text[this.index] === ':') {
+        this.index++
+        value = this.parseValue(true)
+      }
+      mapping[typeof key === 'string' ? key : String(key)] = value
+      this.skipSeparator('}')
+    }
+  }
+
+  skipSeparator(end: string) {
+    this.skipSpaces()
+    let char = this.text[this.index]
+    if (char === ',') {
+      this.index++
+      return
+    }
+    if (char !== end) {
+      this.fail(`expect "," or "${end}"`)
+    }
+  }
+}
+
+function resolvePlainScalar(text: string): YamlValue {
+  switch (text) {
+    case '':
+    case '~':
+    case 'null':
+    case 'Null':
+    case 'NULL':
+      return null
+    case 'true':
+    case 'True':
+    case 'TRUE':
+      return true
+    case 'false':
+    case 'False':
+    case 'FALSE':
+      return false
+    case '.inf':
+    case '.Inf':
+    case '.INF':
+    case '+.inf':
+      return Infinity
+    case '-.inf':
+    case '-.Inf':
+    case '-.INF':
+      return -Infinity
+    case '.nan':
+    case '.NaN':
+    case '.NAN':
+      return NaN
+  }
+  if (/^[-+]?[0-9]+$/.test(text)) {
+    return parseInt(text, 10)
+  }
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    return parseInt(text.slice(2), 16)
+  }
+  if (/^0o[0-7]+$/.test(text)) {
+    return parseInt(text.slice(2), 8)
+  }
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) {
+    return parseFloat(text)
+  }
+  return text
+}
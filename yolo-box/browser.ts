@@ -1,7 +1,27 @@
 import * as tf from '@tensorflow/tfjs'
-import { decodeBox, DecodeBoxArgs, decodeBoxSync, BoxResult } from './common'
+import {
+  decodeBoxData,
+  DecodeBoxArgs,
+  decodeBoxDataSync,
+  decodeBoxTensor,
+  decodeBoxTensorSync,
+  BoxResult,
+  mapBoxResult,
+  predictBoxAugmented,
+  resolveBoxParams,
+} from './common'
 import { ImageInput } from '../tensorflow/browser'
-import { getModelInputShape, preprocessInput } from '../tensorflow/common'
+import {
+  Augmentation,
+  CoordinateSpace,
+  getCoordinateSpace,
+  getImageSize,
+  getInputTransform,
+  getModelInputShape,
+  InputTransform,
+  preprocessInput,
+  ResizeMode,
+} from '../tensorflow/common'
 export * from './common'
 
 export type DetectBoxArgs = {
@@ -11,7 +31,42 @@ export type DetectBoxArgs = {
     width: number
     height: number
   }
-} & Omit<DecodeBoxArgs, 'output'> &
+  /** how to fit the image into input_shape, default: `'stretch'` */
+  resize_mode?: ResizeMode
+  /**
+   * coordinate space of the returned boxes.
+   *
+   * default: `'source'` when `resize_mode` is `'letterbox'`, otherwise `'input'`
+   */
+  coordinate?: CoordinateSpace
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+  /**
+   * where to compute the class scores, box conversion and non-max suppression:
+   * - `'js'`: download the whole output and decode it in javascript
+   * - `'tensor'`: decode with tensors, only download the selected boxes,
+   *   faster with WebGL/WASM backends or large `num_classes`
+   *
+   * default: `'js'`
+   */
+  postprocess?: 'js' | 'tensor'
+  /**
+   * test-time augmentation: run the model on the original, flipped and rescaled copies of the input,
+   * and fuse the predictions with non-max suppression (or the given `suppression`, e.g. `'wbf'`).
+   *
+   * - `true`: same as Ultralytics, see `defaultAugmentations`
+   * - custom list of augmentations
+   *
+   * Should be used with `maxOutputSize`. Not supported for end-to-end (NMS-free) output.
+   *
+   * default: `false`
+   */
+  augment?: boolean | Augmentation[]
+} & Omit<DecodeBoxArgs, 'output' | 'num_classes'> &
   ImageInput
 
 /**
@@ -19,8 +74,8 @@ export type DetectBoxArgs = {
  *   - x, y, width, height
  *   - highest confidence, class_index
  *
- * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1].
- * The the pixel units are scaled to the input_shape.
+ * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1], unless `coordinate` is `'normalized'`.
+ * The the pixel units are scaled to the input_shape, or to the source image when `coordinate` is `'source'`.
  *
  * The confidence are already normalized between 0 to 1.
  */
@@ -28,21 +83,46 @@ export async function detectBox(args: DetectBoxArgs): Promise<BoxResult> {
   let { model } = args
 
   let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
 
   let result = tf.tidy(() => {
     let input =
       'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
-    input = preprocessInput(input, input_shape)
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    if (args.augment) {
+      return predictBoxAugmented({ ...args, tf, input, augment: args.augment })
+    }
     return model.predict(input, {}) as tf.Tensor
   })
 
-  let output = (await result.array()) as number[][][]
-  result.dispose()
-
-  return await decodeBox({
-    ...args,
-    output,
-  })
+  let batches: BoxResult
+  if (args.postprocess === 'tensor') {
+    try {
+      batches = await decodeBoxTensor({
+        ...args,
+        ...resolveBoxParams(args, model, result.shape),
+        output: result,
+      })
+    } finally {
+      result.dispose()
+    }
+  } else {
+    let output = (await result.data()) as Float32Array
+    result.dispose()
+    batches = await decodeBoxData({
+      ...args,
+      ...resolveBoxParams(args, model, result.shape),
+      output,
+      output_shape: result.shape,
+    })
+  }
+  return mapBoxResult(batches, transform, coordinate)
 }
 
 /**
@@ -52,17 +132,45 @@ export function detectBoxSync(args: DetectBoxArgs): BoxResult {
   let { model } = args
 
   let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
 
-  let output = tf.tidy(() => {
+  let result = tf.tidy(() => {
     let input =
       'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
-    input = preprocessInput(input, input_shape)
-    let result = model.predict(input, {}) as tf.Tensor
-    return result.arraySync() as number[][][]
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    if (args.augment) {
+      return predictBoxAugmented({ ...args, tf, input, augment: args.augment })
+    }
+    return model.predict(input, {}) as tf.Tensor
   })
 
-  return decodeBoxSync({
-    ...args,
-    output,
-  })
+  let batches: BoxResult
+  if (args.postprocess === 'tensor') {
+    try {
+      batches = decodeBoxTensorSync({
+        ...args,
+        ...resolveBoxParams(args, model, result.shape),
+        output: result,
+      })
+    } finally {
+      result.dispose()
+    }
+  } else {
+    let output = result.dataSync() as Float32Array
+    result.dispose()
+    batches = decodeBoxDataSync({
+      ...args,
+      ...resolveBoxParams(args, model, result.shape),
+      output,
+      output_shape: result.shape,
+    })
+  }
+
+  return mapBoxResult(batches, transform, coordinate)
 }
@@ -1,4 +1,18 @@
 import type * as tf_type from '@tensorflow/tfjs'
+import {
+  augmentInput,
+  Augmentation,
+  CoordinateSpace,
+  deaugmentOutput,
+  getArrayShape,
+  getAugmentations,
+  getImageSize,
+  getModelMetadata,
+  InputTransform,
+  isEndToEndOutput,
+  isEndToEndShape,
+  mapBox,
+} from '../tensorflow/common'
 
 export type BoundingBox = {
   /** center x of bounding box in px */
@@ -33,8 +47,15 @@ export type DecodeBoxArgs = {
   tf: typeof tf_type
   /** e.g. `1` for single class */
   num_classes: number
-  /** batched predict result, e.g. 1x84x8400 */
+  /** batched predict result, e.g. 1x84x8400, or 1x300x6 for end-to-end output */
   output: number[][][]
+  /**
+   * whether the output is in end-to-end layout (x1, y1, x2, y2, score, class),
+   * e.g. exported with `nms=True` or YOLOv10 style models.
+   *
+   * default: auto detected from the output shape
+   */
+  end_to_end?: boolean
   /**
    * Number of boxes to return using non-max suppression.
    * If not provided, all boxes will be returned
@@ -54,6 +75,188 @@ export type DecodeBoxArgs = {
    * default: `-Infinity`
    */
   scoreThreshold?: number
+
+  /**
+   * how non-max suppression treats overlapping boxes of different classes:
+   * - `'agnostic'`: suppress overlapping boxes regardless of class
+   * - `'per-class'`: only suppress overlapping boxes of the same class, same as Ultralytics' default
+   *
+   * default: `'agnostic'`
+   */
+  nms?: NmsMode
+  /**
+   * whether `maxOutputSize` applies to each class or to all classes in total.
+   * Only effective when `nms` is `'per-class'`.
+   *
+   * default: `false`
+   */
+  maxOutputSizePerClass?: boolean
+  /**
+   * how to suppress overlapping boxes:
+   * - `'nms'`: hard non-max suppression
+   * - `'soft-nms'`: decay the scores of overlapping boxes with Gaussian penalty, see `softNmsSigma`
+   * - `'diou-nms'`: non-max suppression with Distance-IoU, keeps overlapping boxes with distant centers
+   * - `'wbf'`: Weighted Boxes Fusion, fuse overlapping boxes by averaging the coordinates weighted by scores
+   * - custom function
+   *
+   * default: `'nms'`
+   */
+  suppression?: Suppression
+  /**
+   * sigma of the Gaussian penalty, only effective when `suppression` is `'soft-nms'`.
+   *
+   * Boxes overlapping more than `iouThreshold` are still removed,
+   * set `iouThreshold` to `1` to only decay the scores.
+   *
+   * default: `0.5`
+   */
+  softNmsSigma?: number
+} & ClassFilterArgs
+
+export type NmsMode = 'agnostic' | 'per-class'
+
+/**
+ * Per-class score thresholds and class filters, applied before non-max suppression,
+ * so the ignored classes never suppress the wanted ones.
+ *
+ * The classes are specified by class index or class name, e.g. `0` or `'person'`.
+ */
+export type ClassFilterArgs = {
+  /**
+   * score threshold of specific classes, overriding `scoreThreshold`,
+   * e.g. `{ person: 0.3, handbag: 0.7 }`
+   */
+  classThresholds?: Record<number | string, number>
+  /** only keep the boxes of these classes */
+  includeClasses?: (number | string)[]
+  /** ignore the boxes of these classes */
+  excludeClasses?: (number | string)[]
+  /**
+   * used to resolve the class names in `classThresholds`, `includeClasses` and `excludeClasses`.
+   *
+   * auto inferred from model metadata in detect functions if not specified
+   */
+  class_names?: string[]
+}
+
+/**
+ * - `'nms'`: hard non-max suppression
+ * - `'soft-nms'`: decay the scores of overlapping boxes with Gaussian penalty, see `softNmsSigma`
+ * - `'diou-nms'`: non-max suppression with Distance-IoU, keeps overlapping boxes with distant centers
+ * - `'wbf'`: Weighted Boxes Fusion, fuse overlapping boxes by averaging the coordinates weighted by scores
+ * - custom function
+ */
+export type Suppression =
+  | 'nms'
+  | 'soft-nms'
+  | 'diou-nms'
+  | 'wbf'
+  | ((args: SuppressionArgs) => SelectedBoxes)
+
+/** arguments of a suppression method, for the boxes of all classes or a single class */
+export type SuppressionArgs = {
+  /** flatten x1, y1, x2, y2 of each box */
+  boxes: Float32Array
+  /** score of each box */
+  scores: Float32Array | number[]
+  maxOutputSize: number
+  iouThreshold: number
+  scoreThreshold: number
+  softNmsSigma: number
+  /**
+   * original index of each box before grouping by class,
+   * e.g. to look up the keypoints of the box.
+   *
+   * undefined when the group contains all boxes
+   */
+  indices?: number[]
+}
+
+export type SelectedBoxes = {
+  /** indices of the selected boxes, sorted by score in descending order */
+  indices: number[]
+  /** updated scores of the selected boxes, e.g. decayed by Soft-NMS */
+  scores?: number[]
+  /** updated x1, y1, x2, y2 of the selected boxes, e.g. fused by WBF */
+  boxes?: BoxCorners[]
+}
+
+export type DecodeBoxDataArgs = Omit<DecodeBoxArgs, 'output'> & {
+  /** flat batched predict result from `tensor.data()`, e.g. 1x84x8400 */
+  output: Float32Array
+  /** e.g. [1, 84, 8400], or [1, 300, 6] for end-to-end output */
+  output_shape: number[]
+}
+
+export type DecodeBoxTensorArgs = Omit<DecodeBoxArgs, 'output'> & {
+  /** batched predict result, e.g. 1x84x8400, or 1x300x6 for end-to-end output */
+  output: tf_type.Tensor
+}
+
+/**
+ * resolve the decode parameters from the args, model metadata, or output shape (in this order of priority)
+ */
+export function resolveBoxParams(
+  args: { num_classes?: number; end_to_end?: boolean; class_names?: string[] },
+  model: tf_type.InferenceModel,
+  /** e.g. [1, 84, 8400], or [1, 300, 6] for end-to-end output */
+  output_shape: number[],
+): { num_classes: number; end_to_end: boolean; class_names?: string[] } {
+  let end_to_end = isEndToEndOutput(args, model, output_shape, 0)
+  let class_names = args.class_names ?? getModelMetadata(model).class_names
+  let num_classes =
+    args.num_classes ??
+    class_names?.length ??
+    // end-to-end output only contains the class index
+    (end_to_end ? 0 : output_shape[1] - 4)
+  if (!(num_classes > 0)) {
+    throw new Error(
+      `cannot infer num_classes from output shape [${output_shape}], please specify num_classes`,
+    )
+  }
+  return { num_classes, end_to_end, class_names }
+}
+
+/**
+ * Test-time augmentation: run the model on each augmented copy of the input,
+ * and concat the de-augmented outputs along the instances axis,
+ * so the predictions are fused by the non-max suppression when decoding.
+ *
+ * output shape: [batch, features, instances * augmentations]
+ *
+ * Should be called within `tf.tidy()`.
+ */
+export function predictBoxAugmented(args: {
+  tf: typeof tf_type
+  model: tf_type.InferenceModel
+  /** preprocessed input, shape: [batch, height, width, channels] */
+  input: tf_type.Tensor
+  augment: true | Augmentation[]
+  end_to_end?: boolean
+}): tf_type.Tensor {
+  let { tf, model, input } = args
+  let input_shape = getImageSize(input)
+  let outputs = getAugmentations(args.augment).map(augmentation => {
+    let output = model.predict(
+      augmentInput(input, augmentation),
+      {},
+    ) as tf_type.Tensor
+    if (isEndToEndOutput(args, model, output.shape, 0)) {
+      throw new Error(
+        'test-time augmentation is not supported for end-to-end (NMS-free) output',
+      )
+    }
+    return deaugmentOutput({
+      tf,
+      output,
+      augmentation,
+      input_shape,
+      x_features: [0],
+      y_features: [1],
+      size_features: [2, 3],
+    })
+  })
+  return tf.concat(outputs, 2)
 }
 
 /**
@@ -67,7 +270,10 @@ export type DecodeBoxArgs = {
  * The confidence are already normalized between 0 to 1.
  */
 export async function decodeBox(args: DecodeBoxArgs): Promise<BoxResult> {
-  let { tf, num_classes, maxOutputSize, iouThreshold, scoreThreshold } = args
+  if (args.end_to_end ?? isEndToEndShape(getArrayShape(args.output), 0)) {
+    return decodeBoxEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
   let length = 4 + num_classes
 
   // e.g. 1x84x8400
@@ -117,18 +323,18 @@ export async function decodeBox(args: DecodeBoxArgs): Promise<BoxResult> {
     }
 
     let box_indices: number[]
+    let selected: SelectedBoxes | null = null
     if (maxOutputSize) {
-      let box_indices_tensor = await tf.image.nonMaxSuppressionAsync(
+      selected = await suppressBoxes({
+        ...args,
         boxes,
         scores,
+        cls_indices,
         maxOutputSize,
-        iouThreshold,
-        scoreThreshold,
-      )
-      box_indices = await box_indices_tensor.array()
-      box_indices_tensor.dispose()
+      })
+      box_indices = selected.indices
     } else {
-      box_indices = Array.from({ length: num_boxes }, (_, i) => i)
+      box_indices = filterBoxIndices(args, scores, cls_indices)
     }
 
     let bounding_boxes: BoundingBox[] = []
@@ -153,6 +359,9 @@ export async function decodeBox(args: DecodeBoxArgs): Promise<BoxResult> {
         all_confidences,
       })
     }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
     result.push(bounding_boxes)
   }
   return result
@@ -162,7 +371,10 @@ export async function decodeBox(args: DecodeBoxArgs): Promise<BoxResult> {
  * Sync version of `decodeBox`.
  */
 export function decodeBoxSync(args: DecodeBoxArgs): BoxResult {
-  let { tf, num_classes, maxOutputSize, iouThreshold, scoreThreshold } = args
+  if (args.end_to_end ?? isEndToEndShape(getArrayShape(args.output), 0)) {
+    return decodeBoxEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
   let length = 4 + num_classes
 
   // e.g. 1x84x8400
@@ -212,20 +424,18 @@ export function decodeBoxSync(args: DecodeBoxArgs): BoxResult {
     }
 
     let box_indices: number[]
+    let selected: SelectedBoxes | null = null
     if (maxOutputSize) {
-      box_indices = tf.tidy(() =>
-        tf.image
-          .nonMaxSuppression(
-            boxes,
-            scores,
-            maxOutputSize,
-            iouThreshold,
-            scoreThreshold,
-          )
-          .arraySync(),
-      )
+      selected = suppressBoxesSync({
+        ...args,
+        boxes,
+        scores,
+        cls_indices,
+        maxOutputSize,
+      })
+      box_indices = selected.indices
     } else {
-      box_indices = Array.from({ length: num_boxes }, (_, i) => i)
+      box_indices = filterBoxIndices(args, scores, cls_indices)
     }
 
     let bounding_boxes: BoundingBox[] = []
@@ -250,7 +460,1070 @@ export function decodeBoxSync(args: DecodeBoxArgs): BoxResult {
         all_confidences,
       })
     }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+/**
+ * tensorflow output: [batch, instances, features]
+ * features:
+ * - 4: x1, y1, x2, y2
+ * - 1: confidence
+ * - 1: class index
+ *
+ * e.g. 1x300x6 for 1 batch of 300 instances
+ *
+ * The boxes are already suppressed by the model, so non-max suppression is skipped.
+ * Only the confidence of the detected class is available, the others in `all_confidences` are `0`.
+ */
+function decodeBoxEndToEnd(args: DecodeBoxArgs): BoxResult {
+  let { num_classes, maxOutputSize } = args
+  let getScoreThreshold = resolveScoreThreshold(args)
+  let length = 6
+
+  // e.g. 1x300x6
+  let batches = args.output
+
+  let result: BoxResult = []
+  for (let batch of batches) {
+    // e.g. 300x6
+
+    let bounding_boxes: BoundingBox[] = []
+    for (let row of batch) {
+      if (row.length !== length) {
+        throw new Error(`data[batch][box].length must be ${length}`)
+      }
+      let confidence = row[4]
+      if (!(confidence > getScoreThreshold(Math.round(row[5])))) {
+        continue
+      }
+      bounding_boxes.push(decodeEndToEndBox(row, num_classes))
+    }
+    result.push(selectTopBoxes(bounding_boxes, maxOutputSize))
+  }
+  return result
+}
+
+/**
+ * decode the first 6 features of end-to-end output: x1, y1, x2, y2, score, class
+ */
+export function decodeEndToEndBox(
+  row: ArrayLike<number>,
+  num_classes: number,
+): BoundingBox {
+  let x1 = row[0]
+  let y1 = row[1]
+  let x2 = row[2]
+  let y2 = row[3]
+  let confidence = row[4]
+  let class_index = Math.round(row[5])
+  let all_confidences: number[] = new Array(num_classes).fill(0)
+  all_confidences[class_index] = confidence
+  return {
+    x: (x1 + x2) / 2,
+    y: (y1 + y2) / 2,
+    width: x2 - x1,
+    height: y2 - y1,
+    class_index,
+    confidence,
+    all_confidences,
+  }
+}
+
+/**
+ * Same as `decodeBox`, but reads from the flat output of `tensor.data()` with explicit strides,
+ * to avoid allocating nested arrays of `tensor.array()`.
+ */
+export async function decodeBoxData(
+  args: DecodeBoxDataArgs,
+): Promise<BoxResult> {
+  if (args.end_to_end ?? isEndToEndShape(args.output_shape, 0)) {
+    return decodeBoxDataEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
+  let [batch_size, num_features, num_boxes] = args.output_shape
+  let length = 4 + num_classes
+
+  if (num_features !== length) {
+    throw new Error(`output_shape[1] must be ${length}`)
+  }
+
+  let result: BoxResult = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let data = args.output.subarray(
+      batch * num_features * num_boxes,
+      (batch + 1) * num_features * num_boxes,
+    )
+    let { boxes, scores, cls_indices } = prepareBoxData(
+      data,
+      num_boxes,
+      num_classes,
+    )
+
+    let box_indices: ArrayLike<number>
+    let selected: SelectedBoxes | null = null
+    if (maxOutputSize) {
+      selected = await suppressBoxes({
+        ...args,
+        boxes,
+        scores,
+        cls_indices,
+        maxOutputSize,
+      })
+      box_indices = selected.indices
+    } else {
+      box_indices = filterBoxIndices(args, scores, cls_indices)
+    }
+
+    let bounding_boxes: BoundingBox[] = []
+    for (let i = 0; i < box_indices.length; i++) {
+      bounding_boxes.push(
+        readBoxData(data, num_boxes, num_classes, box_indices[i], cls_indices),
+      )
+    }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
     result.push(bounding_boxes)
   }
   return result
 }
+
+/**
+ * Sync version of `decodeBoxData`.
+ */
+export function decodeBoxDataSync(args: DecodeBoxDataArgs): BoxResult {
+  if (args.end_to_end ?? isEndToEndShape(args.output_shape, 0)) {
+    return decodeBoxDataEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
+  let [batch_size, num_features, num_boxes] = args.output_shape
+  let length = 4 + num_classes
+
+  if (num_features !== length) {
+    throw new Error(`output_shape[1] must be ${length}`)
+  }
+
+  let result: BoxResult = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let data = args.output.subarray(
+      batch * num_features * num_boxes,
+      (batch + 1) * num_features * num_boxes,
+    )
+    let { boxes, scores, cls_indices } = prepareBoxData(
+      data,
+      num_boxes,
+      num_classes,
+    )
+
+    let box_indices: ArrayLike<number>
+    let selected: SelectedBoxes | null = null
+    if (maxOutputSize) {
+      selected = suppressBoxesSync({
+        ...args,
+        boxes,
+        scores,
+        cls_indices,
+        maxOutputSize,
+      })
+      box_indices = selected.indices
+    } else {
+      box_indices = filterBoxIndices(args, scores, cls_indices)
+    }
+
+    let bounding_boxes: BoundingBox[] = []
+    for (let i = 0; i < box_indices.length; i++) {
+      bounding_boxes.push(
+        readBoxData(data, num_boxes, num_classes, box_indices[i], cls_indices),
+      )
+    }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+/**
+ * Same as `decodeBox`, but the class scores, box conversion and non-max suppression are computed with tensors,
+ * only the selected boxes are downloaded from the backend (e.g. WebGL or WASM).
+ *
+ * The `output` tensor is not disposed.
+ */
+export async function decodeBoxTensor(
+  args: DecodeBoxTensorArgs,
+): Promise<BoxResult> {
+  let { tf, output, num_classes, maxOutputSize, iouThreshold, scoreThreshold } =
+    args
+  if (args.end_to_end ?? isEndToEndShape(output.shape, 0)) {
+    // already suppressed by the model, e.g. 1x300x6
+    return decodeBoxDataEndToEnd({
+      ...args,
+      output: (await output.data()) as Float32Array,
+      output_shape: output.shape,
+    })
+  }
+  let [batch_size, num_features] = output.shape
+  let length = 4 + num_classes
+
+  if (num_features !== length) {
+    throw new Error(`output_shape[1] must be ${length}`)
+  }
+
+  // resolve the class filters before allocating tensors, it throws on unknown class names
+  let getScoreThreshold = resolveScoreThreshold(args)
+
+  let result: BoxResult = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    // e.g. 8400x84
+    let instances = tf.tidy(() => output.gather(batch).transpose())
+    let tensors: tf_type.Tensor[] = [instances]
+
+    let data: Float32Array
+    let selected_boxes: SelectedBoxes | null = null
+    try {
+      let selected = instances
+      if (maxOutputSize) {
+        let { boxes, scores, cls_indices } = tf.tidy(() =>
+          toBoxesAndScores(args, instances),
+        )
+        tensors.push(boxes, scores, cls_indices)
+        let box_indices: tf_type.Tensor1D
+        if (isTensorNms(args)) {
+          box_indices = await tf.image.nonMaxSuppressionAsync(
+            boxes,
+            scores,
+            maxOutputSize,
+            iouThreshold,
+            scoreThreshold,
+          )
+        } else {
+          // suppress in javascript, without downloading the class scores
+          selected_boxes = await suppressBoxes({
+            ...args,
+            boxes: (await boxes.data()) as Float32Array,
+            scores: (await scores.data()) as Float32Array,
+            cls_indices: (await cls_indices.data()) as Int32Array,
+            maxOutputSize,
+          })
+          box_indices = tf.tensor1d(selected_boxes.indices, 'int32')
+        }
+        tensors.push(box_indices)
+        selected = tf.gather(instances, box_indices)
+        tensors.push(selected)
+      }
+      data = (await selected.data()) as Float32Array
+    } finally {
+      tf.dispose(tensors)
+    }
+
+    let bounding_boxes = readSelectedBoxes(data, num_classes)
+    if (!maxOutputSize) {
+      bounding_boxes = filterSelectedBoxes(getScoreThreshold, bounding_boxes)
+    }
+    if (selected_boxes) {
+      updateSelectedBoxes(bounding_boxes, selected_boxes)
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+/**
+ * Sync version of `decodeBoxTensor`.
+ */
+export function decodeBoxTensorSync(args: DecodeBoxTensorArgs): BoxResult {
+  let { tf, output, num_classes, maxOutputSize, iouThreshold, scoreThreshold } =
+    args
+  if (args.end_to_end ?? isEndToEndShape(output.shape, 0)) {
+    // already suppressed by the model, e.g. 1x300x6
+    return decodeBoxDataEndToEnd({
+      ...args,
+      output: output.dataSync() as Float32Array,
+      output_shape: output.shape,
+    })
+  }
+  let [batch_size, num_features] = output.shape
+  let length = 4 + num_classes
+
+  if (num_features !== length) {
+    throw new Error(`output_shape[1] must be ${length}`)
+  }
+
+  // resolve the class filters before allocating tensors, it throws on unknown class names
+  let getScoreThreshold = resolveScoreThreshold(args)
+
+  let result: BoxResult = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let selected_boxes = null as SelectedBoxes | null
+    let data = tf.tidy(() => {
+      // e.g. 8400x84
+      let instances = output.gather(batch).transpose()
+      if (!maxOutputSize) {
+        return instances.dataSync() as Float32Array
+      }
+      let { boxes, scores, cls_indices } = toBoxesAndScores(args, instances)
+      let box_indices: tf_type.Tensor1D
+      if (isTensorNms(args)) {
+        box_indices = tf.image.nonMaxSuppression(
+          boxes,
+          scores,
+          maxOutputSize,
+          iouThreshold,
+          scoreThreshold,
+        )
+      } else {
+        // suppress in javascript, without downloading the class scores
+        selected_boxes = suppressBoxesSync({
+          ...args,
+          boxes: boxes.dataSync() as Float32Array,
+          scores: scores.dataSync() as Float32Array,
+          cls_indices: cls_indices.dataSync() as Int32Array,
+          maxOutputSize,
+        })
+        box_indices = tf.tensor1d(selected_boxes.indices, 'int32')
+      }
+      return tf.gather(instances, box_indices).dataSync() as Float32Array
+    })
+    let bounding_boxes = readSelectedBoxes(data, num_classes)
+    if (!maxOutputSize) {
+      bounding_boxes = filterSelectedBoxes(getScoreThreshold, bounding_boxes)
+    }
+    if (selected_boxes) {
+      updateSelectedBoxes(bounding_boxes, selected_boxes)
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+// hard non-max suppression of all classes in total can be done with a single call in tensorflow
+function isTensorNms(args: DecodeBoxTensorArgs): boolean {
+  return (
+    (args.suppression ?? 'nms') === 'nms' &&
+    !(args.nms === 'per-class' && args.maxOutputSizePerClass) &&
+    !hasClassFilter(args)
+  )
+}
+
+/**
+ * convert the instances [instances, features] into boxes (x1, y1, x2, y2) [instances, 4],
+ * highest class scores [instances] and class indices [instances] for non-max suppression.
+ *
+ * For `'per-class'` nms in tensorflow, the boxes of each class are shifted apart,
+ * so a single non-max suppression does not suppress boxes of different classes.
+ */
+function toBoxesAndScores(
+  args: DecodeBoxTensorArgs,
+  instances: tf_type.Tensor,
+): {
+  boxes: tf_type.Tensor2D
+  scores: tf_type.Tensor1D
+  cls_indices: tf_type.Tensor1D
+} {
+  let { tf, num_classes } = args
+  let [x, y, width, height] = tf.split(instances.slice([0, 0], [-1, 4]), 4, 1)
+  let half_width = width.div(2)
+  let half_height = height.div(2)
+  let boxes = tf.concat(
+    [
+      x.sub(half_width),
+      y.sub(half_height),
+      x.add(half_width),
+      y.add(half_height),
+    ],
+    1,
+  ) as tf_type.Tensor2D
+  let cls_scores = instances.slice([0, 4], [-1, num_classes])
+  let scores = cls_scores.max(1) as tf_type.Tensor1D
+  let cls_indices = cls_scores.argMax(1) as tf_type.Tensor1D
+  if (args.nms === 'per-class' && isTensorNms(args)) {
+    let offset = boxes.max().sub(boxes.min()).add(1)
+    boxes = boxes.add(
+      cls_indices.cast('float32').expandDims(1).mul(offset),
+    ) as tf_type.Tensor2D
+  }
+  return { boxes, scores, cls_indices }
+}
+
+/**
+ * read the selected instances from the flat data of [instances, features].
+ */
+function readSelectedBoxes(
+  data: Float32Array,
+  num_classes: number,
+): BoundingBox[] {
+  let length = 4 + num_classes
+  let bounding_boxes: BoundingBox[] = []
+  for (let offset = 0; offset < data.length; offset += length) {
+    let all_confidences = Array.from(data.subarray(offset + 4, offset + length))
+    let class_index = 0
+    for (let i = 1; i < num_classes; i++) {
+      if (all_confidences[i] > all_confidences[class_index]) {
+        class_index = i
+      }
+    }
+    bounding_boxes.push({
+      x: data[offset + 0],
+      y: data[offset + 1],
+      width: data[offset + 2],
+      height: data[offset + 3],
+      class_index,
+      confidence: all_confidences[class_index],
+      all_confidences,
+    })
+  }
+  return bounding_boxes
+}
+
+// drop the boxes below the threshold of its class when non-max suppression is skipped
+function filterSelectedBoxes(
+  getScoreThreshold: (class_index: number) => number,
+  bounding_boxes: BoundingBox[],
+): BoundingBox[] {
+  return bounding_boxes.filter(
+    box => box.confidence > getScoreThreshold(box.class_index),
+  )
+}
+
+function decodeBoxDataEndToEnd(args: DecodeBoxDataArgs): BoxResult {
+  let { num_classes, maxOutputSize } = args
+  let getScoreThreshold = resolveScoreThreshold(args)
+  let [batch_size, num_rows, num_features] = args.output_shape
+  let length = 6
+
+  if (num_features !== length) {
+    throw new Error(`output_shape[2] must be ${length}`)
+  }
+
+  let result: BoxResult = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let bounding_boxes: BoundingBox[] = []
+    for (let i = 0; i < num_rows; i++) {
+      let offset = (batch * num_rows + i) * num_features
+      let row = args.output.subarray(offset, offset + num_features)
+      if (!(row[4] > getScoreThreshold(Math.round(row[5])))) {
+        continue
+      }
+      bounding_boxes.push(decodeEndToEndBox(row, num_classes))
+    }
+    result.push(selectTopBoxes(bounding_boxes, maxOutputSize))
+  }
+  return result
+}
+
+/**
+ * prepare the boxes (x1, y1, x2, y2) and the highest class scores for non-max suppression,
+ * from the flat output of a single batch: [features, instances].
+ *
+ * The feature `f` of instance `i` is at `data[f * num_boxes + i]`.
+ */
+export function prepareBoxData(
+  data: Float32Array,
+  num_boxes: number,
+  num_classes: number,
+): { boxes: Float32Array; scores: Float32Array; cls_indices: Int32Array } {
+  let boxes = new Float32Array(num_boxes * 4)
+  let scores = new Float32Array(num_boxes)
+  let cls_indices = new Int32Array(num_boxes)
+  for (let box_index = 0; box_index < num_boxes; box_index++) {
+    let x = data[box_index]
+    let y = data[num_boxes + box_index]
+    let width = data[2 * num_boxes + box_index]
+    let height = data[3 * num_boxes + box_index]
+
+    boxes[box_index * 4 + 0] = x - width / 2
+    boxes[box_index * 4 + 1] = y - height / 2
+    boxes[box_index * 4 + 2] = x + width / 2
+    boxes[box_index * 4 + 3] = y + height / 2
+
+    let box_score = data[4 * num_boxes + box_index]
+    let cls_index = 0
+    for (let i = 1; i < num_classes; i++) {
+      let cls_score = data[(4 + i) * num_boxes + box_index]
+      if (cls_score > box_score) {
+        box_score = cls_score
+        cls_index = i
+      }
+    }
+    scores[box_index] = box_score
+    cls_indices[box_index] = cls_index
+  }
+  return { boxes, scores, cls_indices }
+}
+
+/**
+ * read the bounding box of given instance from the flat output of a single batch: [features, instances].
+ */
+export function readBoxData(
+  data: Float32Array,
+  num_boxes: number,
+  num_classes: number,
+  box_index: number,
+  cls_indices: Int32Array,
+): BoundingBox {
+  let class_index = cls_indices[box_index]
+  let all_confidences: number[] = new Array(num_classes)
+  for (let i = 0; i < num_classes; i++) {
+    all_confidences[i] = data[(4 + i) * num_boxes + box_index]
+  }
+  return {
+    x: data[box_index],
+    y: data[num_boxes + box_index],
+    width: data[2 * num_boxes + box_index],
+    height: data[3 * num_boxes + box_index],
+    class_index,
+    confidence: all_confidences[class_index],
+    all_confidences,
+  }
+}
+
+/** x1, y1, x2, y2 of a box */
+export type BoxCorners = [x1: number, y1: number, x2: number, y2: number]
+
+export type SuppressBoxesArgs = {
+  tf: typeof tf_type
+  /** x1, y1, x2, y2 of each box, flatten or nested */
+  boxes: Float32Array | BoxCorners[]
+  /** highest class score of each box */
+  scores: Float32Array | number[]
+  /** class index of each box */
+  cls_indices: Int32Array | number[]
+  maxOutputSize: number
+  /** default: `0.5` */
+  iouThreshold?: number
+  /** default: `-Infinity` */
+  scoreThreshold?: number
+  /** default: `'agnostic'` */
+  nms?: NmsMode
+  /** default: `false` */
+  maxOutputSizePerClass?: boolean
+  /** default: `'nms'` */
+  suppression?: Suppression
+  /** default: `0.5` */
+  softNmsSigma?: number
+} & ClassFilterArgs
+
+/**
+ * Select the boxes with the given suppression method.
+ *
+ * For `'per-class'` nms, the boxes of each class are suppressed independently.
+ */
+export async function suppressBoxes(
+  args: SuppressBoxesArgs,
+): Promise<SelectedBoxes> {
+  args = applyClassFilter(args)
+  let selections: SelectedBoxes[] = []
+  for (let group of groupBoxes(args)) {
+    let group_args = toSuppressionArgs(args, group)
+    let selected: SelectedBoxes
+    switch (args.suppression ?? 'nms') {
+      case 'nms': {
+        let { tf } = args
+        let boxes_tensor = tf.tensor2d(group.boxes, [group.scores.length, 4])
+        let box_indices_tensor = await tf.image.nonMaxSuppressionAsync(
+          boxes_tensor,
+          group.scores,
+          group_args.maxOutputSize,
+          group_args.iouThreshold,
+          group_args.scoreThreshold,
+        )
+        selected = { indices: Array.from(await box_indices_tensor.data()) }
+        tf.dispose([boxes_tensor, box_indices_tensor])
+        break
+      }
+      case 'soft-nms': {
+        let { tf } = args
+        let boxes_tensor = tf.tensor2d(group.boxes, [group.scores.length, 4])
+        let { selectedIndices, selectedScores } =
+          await tf.image.nonMaxSuppressionWithScoreAsync(
+            boxes_tensor,
+            group.scores,
+            group_args.maxOutputSize,
+            group_args.iouThreshold,
+            group_args.scoreThreshold,
+            group_args.softNmsSigma,
+          )
+        selected = {
+          indices: Array.from(await selectedIndices.data()),
+          scores: Array.from(await selectedScores.data()),
+        }
+        tf.dispose([boxes_tensor, selectedIndices, selectedScores])
+        break
+      }
+      default:
+        selected = suppressGroupSync(args, group_args)
+    }
+    selections.push(toOriginalIndices(selected, group))
+  }
+  return mergeSelections(args, selections)
+}
+
+/**
+ * Sync version of `suppressBoxes`.
+ */
+export function suppressBoxesSync(args: SuppressBoxesArgs): SelectedBoxes {
+  args = applyClassFilter(args)
+  let selections: SelectedBoxes[] = []
+  for (let group of groupBoxes(args)) {
+    let group_args = toSuppressionArgs(args, group)
+    let selected = suppressGroupSync(args, group_args)
+    selections.push(toOriginalIndices(selected, group))
+  }
+  return mergeSelections(args, selections)
+}
+
+function suppressGroupSync(
+  args: SuppressBoxesArgs,
+  group_args: SuppressionArgs,
+): SelectedBoxes {
+  let { tf } = args
+  let { boxes, scores, maxOutputSize, iouThreshold, scoreThreshold } =
+    group_args
+  let suppression = args.suppression ?? 'nms'
+  switch (suppression) {
+    case 'nms':
+      return tf.tidy(() => ({
+        indices: Array.from(
+          tf.image
+            .nonMaxSuppression(
+              tf.tensor2d(boxes, [scores.length, 4]),
+              scores,
+              maxOutputSize,
+              iouThreshold,
+              scoreThreshold,
+            )
+            .dataSync(),
+        ),
+      }))
+    case 'soft-nms':
+      return tf.tidy(() => {
+        let { selectedIndices, selectedScores } =
+          tf.image.nonMaxSuppressionWithScore(
+            tf.tensor2d(boxes, [scores.length, 4]),
+            scores,
+            maxOutputSize,
+            iouThreshold,
+            scoreThreshold,
+            group_args.softNmsSigma,
+          )
+        return {
+          indices: Array.from(selectedIndices.dataSync()),
+          scores: Array.from(selectedScores.dataSync()),
+        }
+      })
+    case 'diou-nms':
+      return diouNonMaxSuppression(group_args)
+    case 'wbf':
+      return weightedBoxesFusion(group_args)
+    default:
+      return suppression(group_args)
+  }
+}
+
+/**
+ * resolve the score threshold of each class,
+ * from `scoreThreshold`, `classThresholds`, `includeClasses` and `excludeClasses`.
+ *
+ * The threshold of ignored classes is `Infinity`.
+ */
+export function resolveScoreThreshold(
+  args: { scoreThreshold?: number } & ClassFilterArgs,
+): (class_index: number) => number {
+  let scoreThreshold = args.scoreThreshold ?? -Infinity
+  let thresholds = new Map<number, number>()
+  for (let [key, threshold] of Object.entries(args.classThresholds || {})) {
+    thresholds.set(toClassIndex(args, key), threshold)
+  }
+  let include = args.includeClasses
+    ? new Set(args.includeClasses.map(key => toClassIndex(args, key)))
+    : null
+  let exclude = new Set(
+    (args.excludeClasses || []).map(key => toClassIndex(args, key)),
+  )
+  return class_index => {
+    if (include && !include.has(class_index)) return Infinity
+    if (exclude.has(class_index)) return Infinity
+    return thresholds.get(class_index) ?? scoreThreshold
+  }
+}
+
+/**
+ * indices of the boxes passing the score threshold of its class,
+ * for decoding without non-max suppression, i.e. when `maxOutputSize` is not specified.
+ */
+export function filterBoxIndices(
+  args: { scoreThreshold?: number } & ClassFilterArgs,
+  scores: ArrayLike<number>,
+  cls_indices: ArrayLike<number>,
+): number[] {
+  let getScoreThreshold = resolveScoreThreshold(args)
+  let indices: number[] = []
+  for (let i = 0; i < scores.length; i++) {
+    if (scores[i] > getScoreThreshold(cls_indices[i])) {
+      indices.push(i)
+    }
+  }
+  return indices
+}
+
+function hasClassFilter(args: ClassFilterArgs): boolean {
+  return !!(args.classThresholds || args.includeClasses || args.excludeClasses)
+}
+
+function toClassIndex(args: ClassFilterArgs, key: number | string): number {
+  if (typeof key === 'number' || /^\d+$/.test(key)) {
+    return +key
+  }
+  if (!args.class_names) {
+    throw new Error(
+      `cannot resolve class name "${key}", please specify class_names`,
+    )
+  }
+  let index = args.class_names.indexOf(key)
+  if (index === -1) {
+    throw new Error(`unknown class name: "${key}"`)
+  }
+  return index
+}
+
+// drop the boxes below the threshold of its class before suppression
+function applyClassFilter(args: SuppressBoxesArgs): SuppressBoxesArgs {
+  if (!hasClassFilter(args)) {
+    return args
+  }
+  let getScoreThreshold = resolveScoreThreshold(args)
+  let { cls_indices } = args
+  let scores = Float32Array.from(args.scores)
+  let min_threshold = Infinity
+  for (let i = 0; i < scores.length; i++) {
+    let threshold = getScoreThreshold(cls_indices[i])
+    if (scores[i] > threshold) {
+      min_threshold = Math.min(min_threshold, threshold)
+    } else {
+      scores[i] = -Infinity
+    }
+  }
+  // the remaining boxes all pass the threshold of its class
+  return { ...args, scores, scoreThreshold: min_threshold }
+}
+
+type BoxGroup = {
+  /** flatten x1, y1, x2, y2 of each box */
+  boxes: Float32Array
+  scores: Float32Array | number[]
+  /** original index of each box, or undefined when the group contains all boxes */
+  indices?: number[]
+}
+
+// split the boxes into groups, each group is suppressed independently
+function groupBoxes(args: SuppressBoxesArgs): BoxGroup[] {
+  let { scores, cls_indices } = args
+  let boxes =
+    args.boxes instanceof Float32Array
+      ? args.boxes
+      : new Float32Array(args.boxes.flat())
+
+  if (args.nms !== 'per-class') {
+    return [{ boxes, scores }]
+  }
+
+  let scoreThreshold = args.scoreThreshold ?? -Infinity
+  let class_indices = new Map<number, number[]>()
+  for (let i = 0; i < scores.length; i++) {
+    if (!(scores[i] > scoreThreshold)) continue
+    let indices = class_indices.get(cls_indices[i])
+    if (!indices) {
+      indices = []
+      class_indices.set(cls_indices[i], indices)
+    }
+    indices.push(i)
+  }
+  let groups: BoxGroup[] = []
+  for (let indices of class_indices.values()) {
+    let group_boxes = new Float32Array(indices.length * 4)
+    let group_scores = new Float32Array(indices.length)
+    indices.forEach((index, i) => {
+      group_boxes.set(boxes.subarray(index * 4, index * 4 + 4), i * 4)
+      group_scores[i] = scores[index]
+    })
+    groups.push({ boxes: group_boxes, scores: group_scores, indices })
+  }
+  return groups
+}
+
+function toSuppressionArgs(
+  args: SuppressBoxesArgs,
+  group: BoxGroup,
+): SuppressionArgs {
+  return {
+    boxes: group.boxes,
+    scores: group.scores,
+    maxOutputSize: args.maxOutputSize,
+    iouThreshold: args.iouThreshold ?? 0.5,
+    scoreThreshold: args.scoreThreshold ?? -Infinity,
+    softNmsSigma: args.softNmsSigma ?? 0.5,
+    indices: group.indices,
+  }
+}
+
+function toOriginalIndices(
+  selected: SelectedBoxes,
+  group: BoxGroup,
+): SelectedBoxes {
+  let { indices } = group
+  if (!indices) return selected
+  return { ...selected, indices: selected.indices.map(i => indices[i]) }
+}
+
+// merge the selections of all groups, sorted by score in descending order
+function mergeSelections(
+  args: SuppressBoxesArgs,
+  selections: SelectedBoxes[],
+): SelectedBoxes {
+  if (selections.length === 1) {
+    return selections[0]
+  }
+  let entries: { index: number; score: number; box?: BoxCorners }[] = []
+  for (let selected of selections) {
+    selected.indices.forEach((index, i) => {
+      entries.push({
+        index,
+        score: selected.scores ? selected.scores[i] : args.scores[index],
+        box: selected.boxes?.[i],
+      })
+    })
+  }
+  entries.sort((a, b) => b.score - a.score)
+  if (!args.maxOutputSizePerClass) {
+    entries = entries.slice(0, args.maxOutputSize)
+  }
+  let merged: SelectedBoxes = { indices: entries.map(entry => entry.index) }
+  if (selections.some(selected => selected.scores)) {
+    merged.scores = entries.map(entry => entry.score)
+  }
+  if (selections.some(selected => selected.boxes)) {
+    merged.boxes = entries.map(entry => entry.box!)
+  }
+  return merged
+}
+
+/**
+ * Update the selected bounding boxes with the scores and boxes from the suppression,
+ * e.g. decayed scores of Soft-NMS, fused boxes of WBF.
+ *
+ * The bounding boxes should be in the same order as `selected.indices`.
+ * The bounding boxes are updated in-place.
+ */
+export function updateSelectedBoxes<T extends BoundingBox>(
+  bounding_boxes: T[],
+  selected: SelectedBoxes,
+): T[] {
+  bounding_boxes.forEach((box, i) => {
+    if (selected.scores) {
+      box.confidence = selected.scores[i]
+    }
+    if (selected.boxes) {
+      let [x1, y1, x2, y2] = selected.boxes[i]
+      box.x = (x1 + x2) / 2
+      box.y = (y1 + y2) / 2
+      box.width = x2 - x1
+      box.height = y2 - y1
+    }
+  })
+  return bounding_boxes
+}
+
+/**
+ * Greedy non-max suppression with Distance-IoU (IoU minus the normalized distance between the box centers),
+ * overlapping boxes with distant centers are kept, e.g. occluded objects.
+ */
+export function diouNonMaxSuppression(args: SuppressionArgs): SelectedBoxes {
+  let { boxes, maxOutputSize, iouThreshold } = args
+  let indices: number[] = []
+  for (let index of sortByScore(args)) {
+    if (indices.length >= maxOutputSize) {
+      break
+    }
+    let box = getBoxCorners(boxes, index)
+    if (
+      indices.every(
+        other => calcDIoU(box, getBoxCorners(boxes, other)) <= iouThreshold,
+      )
+    ) {
+      indices.push(index)
+    }
+  }
+  return { indices }
+}
+
+/**
+ * Weighted Boxes Fusion: overlapping boxes are clustered,
+ * and each cluster is fused into one box by averaging the coordinates weighted by scores.
+ *
+ * The score of a fused box is the average score of the cluster.
+ * Boxes with non-positive scores are skipped, as they have no weight in the fusion.
+ * The selected index of each cluster is the box with highest score,
+ * e.g. the keypoints and mask coefficients are taken from it.
+ */
+export function weightedBoxesFusion(args: SuppressionArgs): SelectedBoxes {
+  let { boxes, scores, maxOutputSize, iouThreshold } = args
+  let clusters: {
+    index: number
+    count: number
+    score_sum: number
+    /** sum of coordinates weighted by scores */
+    weighted_sum: BoxCorners
+    box: BoxCorners
+  }[] = []
+  for (let index of sortByScore(args)) {
+    let box = getBoxCorners(boxes, index)
+    let score = scores[index]
+    if (!(score > 0)) {
+      // sorted by score, the remaining boxes have no weight either
+      break
+    }
+    let matched = null
+    let best_iou = iouThreshold
+    for (let cluster of clusters) {
+      let iou = calcIoU(cluster.box, box)
+      if (iou > best_iou) {
+        best_iou = iou
+        matched = cluster
+      }
+    }
+    if (!matched) {
+      clusters.push({
+        index,
+        count: 1,
+        score_sum: score,
+        weighted_sum: box.map(value => value * score) as BoxCorners,
+        box,
+      })
+      continue
+    }
+    matched.count++
+    matched.score_sum += score
+    for (let i = 0; i < 4; i++) {
+      matched.weighted_sum[i] += box[i] * score
+    }
+    if (matched.score_sum > 0) {
+      for (let i = 0; i < 4; i++) {
+        matched.box[i] = matched.weighted_sum[i] / matched.score_sum
+      }
+    }
+  }
+  let fused = clusters
+    .map(cluster => ({
+      index: cluster.index,
+      score: cluster.score_sum / cluster.count,
+      box: cluster.box,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxOutputSize)
+  return {
+    indices: fused.map(cluster => cluster.index),
+    scores: fused.map(cluster => cluster.score),
+    boxes: fused.map(cluster => cluster.box),
+  }
+}
+
+// indices of boxes above scoreThreshold, sorted by score in descending order
+function sortByScore(args: SuppressionArgs): number[] {
+  let { scores, scoreThreshold } = args
+  let indices: number[] = []
+  for (let i = 0; i < scores.length; i++) {
+    if (scores[i] > scoreThreshold) {
+      indices.push(i)
+    }
+  }
+  return indices.sort((a, b) => scores[b] - scores[a])
+}
+
+function getBoxCorners(boxes: Float32Array, index: number): BoxCorners {
+  let offset = index * 4
+  return [
+    boxes[offset + 0],
+    boxes[offset + 1],
+    boxes[offset + 2],
+    boxes[offset + 3],
+  ]
+}
+
+/** intersection over union of two boxes */
+export function calcIoU(a: BoxCorners, b: BoxCorners): number {
+  let width = Math.min(a[2], b[2]) - Math.max(a[0], b[0])
+  let height = Math.min(a[3], b[3]) - Math.max(a[1], b[1])
+  if (width <= 0 || height <= 0) {
+    return 0
+  }
+  let intersection = width * height
+  let area_a = (a[2] - a[0]) * (a[3] - a[1])
+  let area_b = (b[2] - b[0]) * (b[3] - b[1])
+  return intersection / (area_a + area_b - intersection)
+}
+
+/** intersection over the area of the smaller box, in the range of [0, 1] */
+export function calcIoS(a: BoxCorners, b: BoxCorners): number {
+  let width = Math.min(a[2], b[2]) - Math.max(a[0], b[0])
+  let height = Math.min(a[3], b[3]) - Math.max(a[1], b[1])
+  if (width <= 0 || height <= 0) {
+    return 0
+  }
+  let area_a = (a[2] - a[0]) * (a[3] - a[1])
+  let area_b = (b[2] - b[0]) * (b[3] - b[1])
+  return (width * height) / Math.min(area_a, area_b)
+}
+
+/** Distance-IoU of two boxes, in the range of (-1, 1] */
+export function calcDIoU(a: BoxCorners, b: BoxCorners): number {
+  let dx = (a[0] + a[2] - b[0] - b[2]) / 2
+  let dy = (a[1] + a[3] - b[1] - b[3]) / 2
+  // diagonal of the smallest enclosing box
+  let cw = Math.max(a[2], b[2]) - Math.min(a[0], b[0])
+  let ch = Math.max(a[3], b[3]) - Math.min(a[1], b[1])
+  let diagonal = cw * cw + ch * ch
+  if (diagonal === 0) {
+    return 1
+  }
+  return calcIoU(a, b) - (dx * dx + dy * dy) / diagonal
+}
+
+/**
+ * sort the boxes by confidence in descending order,
+ * and keep at most `maxOutputSize` boxes if specified.
+ */
+export function selectTopBoxes<T extends BoundingBox>(
+  bounding_boxes: T[],
+  maxOutputSize: number | undefined,
+): T[] {
+  bounding_boxes.sort((a, b) => b.confidence - a.confidence)
+  if (maxOutputSize) {
+    bounding_boxes = bounding_boxes.slice(0, maxOutputSize)
+  }
+  return bounding_boxes
+}
+
+/**
+ * map all bounding boxes from input_shape pixel unit to the given coordinate space.
+ *
+ * The result is updated in-place.
+ */
+export function mapBoxResult(
+  result: BoxResult,
+  transform: InputTransform,
+  coordinate: CoordinateSpace,
+): BoxResult {
+  if (coordinate === 'input') return result
+  for (let bounding_boxes of result) {
+    for (let box of bounding_boxes) {
+      mapBox(box, transform, coordinate)
+    }
+  }
+  return result
+}
@@ -1,9 +1,29 @@
 import * as tf from '@tensorflow/tfjs-node'
-import { decodeBox, DecodeBoxArgs, decodeBoxSync } from './common'
+import {
+  decodeBoxData,
+  DecodeBoxArgs,
+  decodeBoxDataSync,
+  BoxResult,
+  decodeBoxTensor,
+  decodeBoxTensorSync,
+  mapBoxResult,
+  predictBoxAugmented,
+  resolveBoxParams,
+} from './common'
 import { readFile } from 'fs/promises'
 import { readFileSync } from 'fs'
 import { ImageInput } from '../tensorflow/node'
-import { getModelInputShape, preprocessInput } from '../tensorflow/common'
+import {
+  Augmentation,
+  CoordinateSpace,
+  getCoordinateSpace,
+  getImageSize,
+  getInputTransform,
+  getModelInputShape,
+  InputTransform,
+  preprocessInput,
+  ResizeMode,
+} from '../tensorflow/common'
 export * from './common'
 
 export type DetectBoxArgs = {
@@ -13,7 +33,42 @@ export type DetectBoxArgs = {
     width: number
     height: number
   }
-} & Omit<DecodeBoxArgs, 'output'> &
+  /** how to fit the image into input_shape, default: `'stretch'` */
+  resize_mode?: ResizeMode
+  /**
+   * coordinate space of the returned boxes.
+   *
+   * default: `'source'` when `resize_mode` is `'letterbox'`, otherwise `'input'`
+   */
+  coordinate?: CoordinateSpace
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+  /**
+   * where to compute the class scores, box conversion and non-max suppression:
+   * - `'js'`: download the whole output and decode it in javascript
+   * - `'tensor'`: decode with tensors, only download the selected boxes,
+   *   faster with WebGL/WASM backends or large `num_classes`
+   *
+   * default: `'js'`
+   */
+  postprocess?: 'js' | 'tensor'
+  /**
+   * test-time augmentation: run the model on the original, flipped and rescaled copies of the input,
+   * and fuse the predictions with non-max suppression (or the given `suppression`, e.g. `'wbf'`).
+   *
+   * - `true`: same as Ultralytics, see `defaultAugmentations`
+   * - custom list of augmentations
+   *
+   * Should be used with `maxOutputSize`. Not supported for end-to-end (NMS-free) output.
+   *
+   * default: `false`
+   */
+  augment?: boolean | Augmentation[]
+} & Omit<DecodeBoxArgs, 'output' | 'num_classes'> &
   ImageInput
 
 /**
@@ -21,8 +76,8 @@ export type DetectBoxArgs = {
  *   - x, y, width, height
  *   - highest confidence, class_index
  *
- * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1].
- * The the pixel units are scaled to the input_shape.
+ * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1], unless `coordinate` is `'normalized'`.
+ * The the pixel units are scaled to the input_shape, or to the source image when `coordinate` is `'source'`.
  *
  * The confidence are already normalized between 0 to 1.
  */
@@ -30,22 +85,47 @@ export async function detectBox(args: DetectBoxArgs) {
   let { model } = args
 
   let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
 
   let buffer = 'file' in args ? await readFile(args.file) : null
 
   let result = tf.tidy(() => {
     let input = 'tensor' in args ? args.tensor : tf.node.decodeImage(buffer!)
-    input = preprocessInput(input, input_shape)
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    if (args.augment) {
+      return predictBoxAugmented({ ...args, tf, input, augment: args.augment })
+    }
     return model.predict(input, {}) as tf.Tensor
   })
 
-  let output = (await result.array()) as number[][][]
-  result.dispose()
-
-  return await decodeBox({
-    ...args,
-    output,
-  })
+  let batches: BoxResult
+  if (args.postprocess === 'tensor') {
+    try {
+      batches = await decodeBoxTensor({
+        ...args,
+        ...resolveBoxParams(args, model, result.shape),
+        output: result,
+      })
+    } finally {
+      result.dispose()
+    }
+  } else {
+    let output = (await result.data()) as Float32Array
+    result.dispose()
+    batches = await decodeBoxData({
+      ...args,
+      ...resolveBoxParams(args, model, result.shape),
+      output,
+      output_shape: result.shape,
+    })
+  }
+  return mapBoxResult(batches, transform, coordinate)
 }
 
 /**
@@ -55,18 +135,46 @@ export function detectBoxSync(args: DetectBoxArgs) {
   let { model } = args
 
   let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
 
   let buffer = 'file' in args ? readFileSync(args.file) : null
 
-  let output = tf.tidy(() => {
+  let result = tf.tidy(() => {
     let input = 'tensor' in args ? args.tensor : tf.node.decodeImage(buffer!)
-    input = preprocessInput(input, input_shape)
-    let result = model.predict(input, {}) as tf.Tensor
-    return result.arraySync() as number[][][]
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    if (args.augment) {
+      return predictBoxAugmented({ ...args, tf, input, augment: args.augment })
+    }
+    return model.predict(input, {}) as tf.Tensor
   })
 
-  return decodeBoxSync({
-    ...args,
-    output,
-  })
+  let batches: BoxResult
+  if (args.postprocess === 'tensor') {
+    try {
+      batches = decodeBoxTensorSync({
+        ...args,
+        ...resolveBoxParams(args, model, result.shape),
+        output: result,
+      })
+    } finally {
+      result.dispose()
+    }
+  } else {
+    let output = result.dataSync() as Float32Array
+    result.dispose()
+    batches = decodeBoxDataSync({
+      ...args,
+      ...resolveBoxParams(args, model, result.shape),
+      output,
+      output_shape: result.shape,
+    })
+  }
+
+  return mapBoxResult(batches, transform, coordinate)
 }
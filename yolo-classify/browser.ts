@@ -1,7 +1,16 @@
 import * as tf from '@tensorflow/tfjs'
-import { ClassifyResult, decodeClassify, DecodeClassifyArgs } from './common'
+import {
+  ClassifyResult,
+  decodeClassify,
+  DecodeClassifyArgs,
+  resolveClassifyParams,
+} from './common'
 import { ImageInput } from '../tensorflow/browser'
-import { getModelInputShape, preprocessInput } from '../tensorflow/common'
+import {
+  getModelInputShape,
+  preprocessInput,
+  ResizeMode,
+} from '../tensorflow/common'
 export * from './common'
 
 export type ClassifyArgs = {
@@ -11,7 +20,15 @@ export type ClassifyArgs = {
     width: number
     height: number
   }
-} & Omit<DecodeClassifyArgs, 'output'> &
+  /** how to fit the image into input_shape, default: `'stretch'` */
+  resize_mode?: ResizeMode
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+} & Omit<DecodeClassifyArgs, 'output' | 'num_classes'> &
   ImageInput
 
 /**
@@ -31,7 +48,7 @@ export async function classifyImage(
   let result = tf.tidy(() => {
     let input =
       'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
-    input = preprocessInput(input, input_shape)
+    input = preprocessInput(input, input_shape, args.resize_mode)
     return model.predict(input, {}) as tf.Tensor
   })
 
@@ -40,6 +57,7 @@ export async function classifyImage(
 
   return decodeClassify({
     ...args,
+    ...resolveClassifyParams(args, model, result.shape),
     output,
   })
 }
@@ -55,13 +73,16 @@ export function classifyImageSync(args: ClassifyArgs): ClassifyResult {
   let output = tf.tidy(() => {
     let input =
       'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
-    input = preprocessInput(input, input_shape)
+    input = preprocessInput(input, input_shape, args.resize_mode)
     let result = model.predict(input, {}) as tf.Tensor
-    return result.arraySync() as number[][]
+    return {
+      ...resolveClassifyParams(args, model, result.shape),
+      output: result.arraySync() as number[][],
+    }
   })
 
   return decodeClassify({
     ...args,
-    output,
+    ...output,
   })
 }
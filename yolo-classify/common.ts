@@ -1,3 +1,6 @@
+import type { InferenceModel } from '@tensorflow/tfjs'
+import { getModelMetadata } from '../tensorflow/common'
+
 export type ImageResult = {
   /** class index with highest confidence */
   class_index: number
@@ -21,6 +24,27 @@ export type DecodeClassifyArgs = {
   output: number[][]
 }
 
+/**
+ * resolve the decode parameters from the args, model metadata, or output shape (in this order of priority)
+ */
+export function resolveClassifyParams(
+  args: { num_classes?: number },
+  model: InferenceModel,
+  /** e.g. [1, 1000] */
+  output_shape: number[],
+): { num_classes: number } {
+  let num_classes =
+    args.num_classes ??
+    getModelMetadata(model).class_names?.length ??
+    output_shape[1]
+  if (!(num_classes > 0)) {
+    throw new Error(
+      `cannot infer num_classes from output shape [${output_shape}], please specify num_classes`,
+    )
+  }
+  return { num_classes }
+}
+
 /**
  * tensorflow output: [batch, class_index] -> confidence
  * e.g. 1x1000 for 1 batch of 1000 classes
@@ -2,8 +2,16 @@ import * as tf from '@tensorflow/tfjs-node'
 import { readFile } from 'fs/promises'
 import { readFileSync } from 'fs'
 import { ImageInput } from '../tensorflow/node'
-import { getModelInputShape, preprocessInput } from '../tensorflow/common'
-import { decodeClassify, DecodeClassifyArgs } from './common'
+import {
+  getModelInputShape,
+  preprocessInput,
+  ResizeMode,
+} from '../tensorflow/common'
+import {
+  decodeClassify,
+  DecodeClassifyArgs,
+  resolveClassifyParams,
+} from './common'
 export * from './common'
 
 export type ClassifyArgs = {
@@ -13,7 +21,15 @@ export type ClassifyArgs = {
     width: number
     height: number
   }
-} & Omit<DecodeClassifyArgs, 'output'> &
+  /** how to fit the image into input_shape, default: `'stretch'` */
+  resize_mode?: ResizeMode
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+} & Omit<DecodeClassifyArgs, 'output' | 'num_classes'> &
   ImageInput
 
 /**
@@ -32,7 +48,7 @@ export async function classifyImage(args: ClassifyArgs) {
 
   let result = tf.tidy(() => {
     let input = 'tensor' in args ? args.tensor : tf.node.decodeImage(buffer!)
-    input = preprocessInput(input, input_shape)
+    input = preprocessInput(input, input_shape, args.resize_mode)
     return model.predict(input, {}) as tf.Tensor
   })
 
@@ -41,6 +57,7 @@ export async function classifyImage(args: ClassifyArgs) {
 
   return decodeClassify({
     ...args,
+    ...resolveClassifyParams(args, model, result.shape),
     output,
   })
 }
@@ -57,13 +74,16 @@ export function classifyImageSync(args: ClassifyArgs) {
 
   let output = tf.tidy(() => {
     let input = 'tensor' in args ? args.tensor : tf.node.decodeImage(buffer!)
-    input = preprocessInput(input, input_shape)
+    input = preprocessInput(input, input_shape, args.resize_mode)
     let result = model.predict(input, {}) as tf.Tensor
-    return result.arraySync() as number[][]
+    return {
+      ...resolveClassifyParams(args, model, result.shape),
+      output: result.arraySync() as number[][],
+    }
   })
 
   return decodeClassify({
     ...args,
-    output,
+    ...output,
   })
 }
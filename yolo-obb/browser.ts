@@ -0,0 +1,120 @@
+import * as tf from '@tensorflow/tfjs'
+import {
+  decodeObb,
+  DecodeObbArgs,
+  decodeObbSync,
+  ObbResult,
+  mapObbResult,
+  resolveObbParams,
+} from './common'
+import { ImageInput } from '../tensorflow/browser'
+import {
+  CoordinateSpace,
+  getCoordinateSpace,
+  getImageSize,
+  getInputTransform,
+  getModelInputShape,
+  InputTransform,
+  preprocessInput,
+  ResizeMode,
+} from '../tensorflow/common'
+export * from './common'
+
+export type DetectObbArgs = {
+  model: tf.InferenceModel
+  /** used for image resize when necessary, auto inferred from model shape */
+  input_shape?: {
+    width: number
+    height: number
+  }
+  /** how to fit the image into input_shape, default: `'stretch'` */
+  resize_mode?: ResizeMode
+  /**
+   * coordinate space of the returned oriented boxes.
+   *
+   * default: `'source'` when `resize_mode` is `'letterbox'`, otherwise `'input'`
+   */
+  coordinate?: CoordinateSpace
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+} & Omit<DecodeObbArgs, 'output' | 'num_classes'> &
+  ImageInput
+
+/**
+ * oriented box features:
+ *   - x, y, width, height, angle
+ *   - highest confidence, class_index
+ *
+ * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1], unless `coordinate` is `'normalized'`.
+ * The the pixel units are scaled to the input_shape, or to the source image when `coordinate` is `'source'`.
+ *
+ * The angle is in radian, in the range of [0, PI), rotating clockwise.
+ *
+ * The confidence are already normalized between 0 to 1.
+ */
+export async function detectObb(args: DetectObbArgs): Promise<ObbResult> {
+  let { model } = args
+
+  let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
+
+  let result = tf.tidy(() => {
+    let input =
+      'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    return model.predict(input, {}) as tf.Tensor
+  })
+
+  let output = (await result.array()) as number[][][]
+  result.dispose()
+
+  let batches = await decodeObb({
+    ...args,
+    ...resolveObbParams(args, model, result.shape),
+    output,
+  })
+  return mapObbResult(batches, transform, coordinate)
+}
+
+/**
+ * Sync version of `detectObb`.
+ */
+export function detectObbSync(args: DetectObbArgs): ObbResult {
+  let { model } = args
+
+  let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
+
+  let output = tf.tidy(() => {
+    let input =
+      'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    let result = model.predict(input, {}) as tf.Tensor
+    return {
+      ...resolveObbParams(args, model, result.shape),
+      output: result.arraySync() as number[][][],
+    }
+  })
+
+  let batches = decodeObbSync({
+    ...args,
+    ...output,
+  })
+  return mapObbResult(batches, transform, coordinate)
+}
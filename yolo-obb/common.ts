@@ -0,0 +1,370 @@
+import type * as tf_type from '@tensorflow/tfjs'
+import {
+  CoordinateSpace,
+  getModelMetadata,
+  InputTransform,
+  mapPoint,
+} from '../tensorflow/common'
+import { BoundingBox } from '../yolo-box/common'
+
+export type OrientedBoundingBox = BoundingBox & {
+  /**
+   * rotation angle of the box in radian, in the range of [0, PI).
+   *
+   * Positive angle rotates the box clockwise (in image coordinates, y-axis pointing down).
+   */
+  angle: number
+}
+
+/**
+ * output shape: [batch, box]
+ *
+ * Array of batches, each containing array of detected oriented bounding boxes
+ * */
+export type ObbResult = OrientedBoundingBox[][]
+
+export type DecodeObbArgs = {
+  /** e.g. `15` for DOTA dataset */
+  num_classes: number
+  /** batched predict result, e.g. 1x20x21504 */
+  output: number[][][]
+  /**
+   * Number of boxes to return using non-max suppression.
+   * If not provided, all boxes will be returned
+   *
+   * e.g. `1` for only selecting the bounding box with highest confidence.
+   */
+  maxOutputSize?: number
+  /**
+   * the threshold for deciding whether boxes overlap too much with respect to rotated IOU.
+   *
+   * default: `0.5`
+   */
+  iouThreshold?: number
+  /**
+   * the threshold for deciding whether a box is a valid detection.
+   *
+   * default: `-Infinity`
+   */
+  scoreThreshold?: number
+}
+
+/**
+ * resolve the decode parameters from the args, model metadata, or output shape (in this order of priority)
+ */
+export function resolveObbParams(
+  args: { num_classes?: number },
+  model: tf_type.InferenceModel,
+  /** e.g. [1, 20, 21504] */
+  output_shape: number[],
+): { num_classes: number } {
+  let num_classes =
+    args.num_classes ??
+    getModelMetadata(model).class_names?.length ??
+    output_shape[1] - 5
+  if (!(num_classes > 0)) {
+    throw new Error(
+      `cannot infer num_classes from output shape [${output_shape}], please specify num_classes`,
+    )
+  }
+  return { num_classes }
+}
+
+/**
+ * tensorflow output: [batch, features, instances]
+ * features:
+ * - 4: x, y, width, height
+ * - num_classes: class confidence
+ * - 1: angle in radian
+ *
+ * e.g. 1x20x21504 for 1 batch of 21504 instances with 15 classes
+ *
+ * The confidence are already normalized between 0 to 1.
+ *
+ * The non-max suppression is computed with rotated IOU in javascript,
+ * this async version is provided for consistency with `decodeBox()`.
+ */
+export async function decodeObb(args: DecodeObbArgs): Promise<ObbResult> {
+  return decodeObbSync(args)
+}
+
+/**
+ * Sync version of `decodeObb`.
+ */
+export function decodeObbSync(args: DecodeObbArgs): ObbResult {
+  let { num_classes, maxOutputSize, iouThreshold, scoreThreshold } = args
+  let length = 4 + num_classes + 1
+
+  // e.g. 1x20x21504
+  let batches = args.output
+
+  if (batches[0].length === 0) {
+    // no a single batch
+    return []
+  }
+  if (batches[0].length !== length) {
+    throw new Error(`data[batch].length must be ${length}`)
+  }
+
+  let num_boxes = batches[0][0].length
+
+  let result: ObbResult = []
+  for (let batch of batches) {
+    // e.g. 20x21504
+
+    let scores: number[] = []
+    let cls_indices: number[] = []
+    for (let box_index = 0; box_index < num_boxes; box_index++) {
+      let box_score = batch[4][box_index]
+      let cls_index = 0
+      for (let i = 1; i < num_classes; i++) {
+        let cls_score = batch[4 + i][box_index]
+        if (cls_score > box_score) {
+          box_score = cls_score
+          cls_index = i
+        }
+      }
+      scores.push(box_score)
+      cls_indices.push(cls_index)
+    }
+
+    let toBox = (box_index: number): OrientedBoundingBox => {
+      let class_index = cls_indices[box_index]
+      let all_confidences: number[] = new Array(num_classes)
+      for (let i = 0; i < num_classes; i++) {
+        all_confidences[i] = batch[4 + i][box_index]
+      }
+      return regularizeRotatedBox({
+        x: batch[0][box_index],
+        y: batch[1][box_index],
+        width: batch[2][box_index],
+        height: batch[3][box_index],
+        angle: batch[4 + num_classes][box_index],
+        class_index,
+        confidence: batch[4 + class_index][box_index],
+        all_confidences,
+      })
+    }
+
+    let bounding_boxes: OrientedBoundingBox[]
+    if (maxOutputSize) {
+      bounding_boxes = nonMaxSuppressionRotated({
+        scores,
+        getBox: toBox,
+        maxOutputSize,
+        iouThreshold,
+        scoreThreshold,
+      })
+    } else {
+      bounding_boxes = Array.from({ length: num_boxes }, (_, i) => toBox(i))
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+export type RotatedBox = {
+  /** center x of the box */
+  x: number
+  /** center y of the box */
+  y: number
+  width: number
+  height: number
+  /** rotation angle in radian, clockwise */
+  angle: number
+}
+
+/**
+ * make width >= height, and angle in the range of [0, PI), same as Ultralytics.
+ *
+ * The box is updated in-place.
+ */
+export function regularizeRotatedBox<T extends RotatedBox>(box: T): T {
+  let { width, height, angle } = box
+  if (width < height) {
+    box.width = height
+    box.height = width
+    angle += Math.PI / 2
+  }
+  angle = angle % Math.PI
+  if (angle < 0) {
+    angle += Math.PI
+  }
+  box.angle = angle
+  return box
+}
+
+/**
+ * returns the 4 corners of the box in clockwise order (in image coordinates),
+ * starting from the top-left corner before rotation.
+ */
+export function getRotatedBoxCorners(
+  box: RotatedBox,
+): [x: number, y: number][] {
+  let cos = Math.cos(box.angle)
+  let sin = Math.sin(box.angle)
+  // half vectors along the width and height of the box
+  let wx = (box.width / 2) * cos
+  let wy = (box.width / 2) * sin
+  let hx = (-box.height / 2) * sin
+  let hy = (box.height / 2) * cos
+  return [
+    [box.x - wx - hx, box.y - wy - hy],
+    [box.x + wx - hx, box.y + wy - hy],
+    [box.x + wx + hx, box.y + wy + hy],
+    [box.x - wx + hx, box.y - wy + hy],
+  ]
+}
+
+/** intersection over union of two rotated boxes */
+export function calcRotatedIoU(a: RotatedBox, b: RotatedBox): number {
+  let area_a = a.width * a.height
+  let area_b = b.width * b.height
+  if (area_a <= 0 || area_b <= 0) {
+    return 0
+  }
+  let intersection = polygonArea(
+    clipPolygon(getRotatedBoxCorners(a), getRotatedBoxCorners(b)),
+  )
+  return intersection / (area_a + area_b - intersection)
+}
+
+/**
+ * Greedy non-max suppression with rotated IOU.
+ *
+ * returns the selected boxes, sorted by score in descending order.
+ */
+export function nonMaxSuppressionRotated<T extends RotatedBox>(args: {
+  /** score of each box */
+  scores: number[]
+  /** lazily build the box of given index, only called for boxes passing the scoreThreshold */
+  getBox: (index: number) => T
+  maxOutputSize: number
+  /** default: `0.5` */
+  iouThreshold?: number
+  /** default: `-Infinity` */
+  scoreThreshold?: number
+}): T[] {
+  let { scores, getBox, maxOutputSize } = args
+  let iouThreshold = args.iouThreshold ?? 0.5
+  let scoreThreshold = args.scoreThreshold ?? -Infinity
+
+  let indices: number[] = []
+  for (let i = 0; i < scores.length; i++) {
+    if (scores[i] > scoreThreshold) {
+      indices.push(i)
+    }
+  }
+  indices.sort((a, b) => scores[b] - scores[a])
+
+  let selected: T[] = []
+  for (let index of indices) {
+    if (selected.length >= maxOutputSize) {
+      break
+    }
+    let box = getBox(index)
+    if (selected.every(other => calcRotatedIoU(box, other) <= iouThreshold)) {
+      selected.push(box)
+    }
+  }
+  return selected
+}
+
+/**
+ * map all oriented bounding boxes from input_shape pixel unit to the given coordinate space.
+ *
+ * When the x-axis and y-axis are scaled differently (e.g. `'stretch'` resize mode or `'normalized'` coordinate),
+ * the mapped box is an approximation, because a rotated rectangle becomes a parallelogram.
+ *
+ * The result is updated in-place.
+ */
+export function mapObbResult(
+  result: ObbResult,
+  transform: InputTransform,
+  coordinate: CoordinateSpace,
+): ObbResult {
+  if (coordinate === 'input') return result
+  let scale_x = transform.scale_x
+  let scale_y = transform.scale_y
+  if (coordinate === 'normalized') {
+    scale_x *= transform.source_shape.width
+    scale_y *= transform.source_shape.height
+  }
+  for (let bounding_boxes of result) {
+    for (let box of bounding_boxes) {
+      mapPoint(box, transform, coordinate)
+      let cos = Math.cos(box.angle)
+      let sin = Math.sin(box.angle)
+      // vectors along the width and height of the box
+      let wx = (box.width * cos) / scale_x
+      let wy = (box.width * sin) / scale_y
+      let hx = (-box.height * sin) / scale_x
+      let hy = (box.height * cos) / scale_y
+      box.width = Math.sqrt(wx * wx + wy * wy)
+      box.height = Math.sqrt(hx * hx + hy * hy)
+      // the same box when rotated by PI, keep it in the range of [0, PI)
+      box.angle = (Math.atan2(wy, wx) + Math.PI) % Math.PI
+    }
+  }
+  return result
+}
+
+type Point = [x: number, y: number]
+
+// Sutherland-Hodgman algorithm, both polygons should be convex
+function clipPolygon(subject: Point[], clip: Point[]): Point[] {
+  let orientation = Math.sign(signedArea(clip))
+  let output = subject
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    let a = clip[i]
+    let b = clip[(i + 1) % clip.length]
+    let isInside = (p: Point) =>
+      orientation *
+        ((b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0])) >=
+      0
+    let input = output
+    output = []
+    for (let j = 0; j < input.length; j++) {
+      let current = input[j]
+      let previous = input[(j + input.length - 1) % input.length]
+      let current_inside = isInside(current)
+      let previous_inside = isInside(previous)
+      if (current_inside !== previous_inside) {
+        output.push(intersectLines(previous, current, a, b))
+      }
+      if (current_inside) {
+        output.push(current)
+      }
+    }
+  }
+  return output
+}
+
+// intersection of line p1-p2 and line p3-p4
+function intersectLines(p1: Point, p2: Point, p3: Point, p4: Point): Point {
+  let dx1 = p2[0] - p1[0]
+  let dy1 = p2[1] - p1[1]
+  let dx2 = p4[0] - p3[0]
+  let dy2 = p4[1] - p3[1]
+  let denominator = dx1 * dy2 - dy1 * dx2
+  if (denominator === 0) {
+    return p2
+  }
+  let t = ((p3[0] - p1[0]) * dy2 - (p3[1] - p1[1]) * dx2) / denominator
+  return [p1[0] + t * dx1, p1[1] + t * dy1]
+}
+
+// shoelace formula
+function signedArea(polygon: Point[]): number {
+  let area = 0
+  for (let i = 0; i < polygon.length; i++) {
+    let [x1, y1] = polygon[i]
+    let [x2, y2] = polygon[(i + 1) % polygon.length]
+    area += x1 * y2 - x2 * y1
+  }
+  return area / 2
+}
+
+function polygonArea(polygon: Point[]): number {
+  return Math.abs(signedArea(polygon))
+}
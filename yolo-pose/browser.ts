@@ -1,12 +1,25 @@
 import * as tf from '@tensorflow/tfjs'
 import {
-  decodePose,
+  decodePoseData,
   DecodePoseArgs,
-  decodePoseSync,
+  decodePoseDataSync,
   PoseResult,
+  mapPoseResult,
+  predictPoseAugmented,
+  resolvePoseParams,
 } from './common'
 import { ImageInput } from '../tensorflow/browser'
-import { getModelInputShape, preprocessInput } from '../tensorflow/common'
+import {
+  Augmentation,
+  CoordinateSpace,
+  getCoordinateSpace,
+  getImageSize,
+  getInputTransform,
+  getModelInputShape,
+  InputTransform,
+  preprocessInput,
+  ResizeMode,
+} from '../tensorflow/common'
 export * from './common'
 
 export type DetectPoseArgs = {
@@ -16,7 +29,55 @@ export type DetectPoseArgs = {
     width: number
     height: number
   }
-} & Omit<DecodePoseArgs, 'output'> &
+  /** how to fit the image into input_shape, default: `'stretch'` */
+  resize_mode?: ResizeMode
+  /**
+   * coordinate space of the returned boxes and keypoints.
+   *
+   * default: `'source'` when `resize_mode` is `'letterbox'`, otherwise `'input'`
+   */
+  coordinate?: CoordinateSpace
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+  /**
+   * e.g. `17` for 17 keypoints
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_keypoints?: number
+  /**
+   * for each keypoints, are them {x,y} or {x,y,visibility}
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  visibility?: boolean
+  /**
+   * test-time augmentation: run the model on the original, flipped and rescaled copies of the input,
+   * and fuse the predictions with non-max suppression (or the given `suppression`, e.g. `'wbf'`).
+   *
+   * - `true`: same as Ultralytics, see `defaultAugmentations`
+   * - custom list of augmentations
+   *
+   * Should be used with `maxOutputSize`. Not supported for end-to-end (NMS-free) output.
+   *
+   * default: `false`
+   */
+  augment?: boolean | Augmentation[]
+  /**
+   * for each keypoint, the index of the mirrored keypoint when the image is flipped horizontally,
+   * only used by `augment`.
+   *
+   * default: `flip_idx` from model metadata
+   */
+  flip_idx?: number[]
+} & Omit<
+  DecodePoseArgs,
+  'output' | 'num_classes' | 'num_keypoints' | 'visibility'
+> &
   ImageInput
 
 /**
@@ -28,8 +89,8 @@ export type DetectPoseArgs = {
  * keypoint features:
  *   - x, y, visibility
  *
- * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1].
- * The the pixel units are scaled to the input_shape.
+ * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1], unless `coordinate` is `'normalized'`.
+ * The the pixel units are scaled to the input_shape, or to the source image when `coordinate` is `'source'`.
  *
  * The confidence are already normalized between 0 to 1.
  */
@@ -37,21 +98,34 @@ export async function detectPose(args: DetectPoseArgs): Promise<PoseResult> {
   let { model } = args
 
   let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
 
   let result = tf.tidy(() => {
     let input =
       'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
-    input = preprocessInput(input, input_shape)
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    if (args.augment) {
+      return predictPoseAugmented({ ...args, tf, input, augment: args.augment })
+    }
     return model.predict(input, {}) as tf.Tensor
   })
 
-  let output = (await result.array()) as number[][][]
+  let output = (await result.data()) as Float32Array
   result.dispose()
 
-  return await decodePose({
+  let batches = await decodePoseData({
     ...args,
+    ...resolvePoseParams(args, model, result.shape),
     output,
+    output_shape: result.shape,
   })
+  return mapPoseResult(batches, transform, coordinate)
 }
 
 /**
@@ -61,17 +135,31 @@ export function detectPoseSync(args: DetectPoseArgs): PoseResult {
   let { model } = args
 
   let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
 
   let output = tf.tidy(() => {
     let input =
       'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
-    input = preprocessInput(input, input_shape)
-    let result = model.predict(input, {}) as tf.Tensor
-    return result.arraySync() as number[][][]
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    let result = args.augment
+      ? predictPoseAugmented({ ...args, tf, input, augment: args.augment })
+      : (model.predict(input, {}) as tf.Tensor)
+    return {
+      ...resolvePoseParams(args, model, result.shape),
+      output: result.dataSync() as Float32Array,
+      output_shape: result.shape,
+    }
   })
 
-  return decodePoseSync({
+  let batches = decodePoseDataSync({
     ...args,
-    output,
+    ...output,
   })
+  return mapPoseResult(batches, transform, coordinate)
 }
@@ -1,5 +1,36 @@
 import type * as tf_type from '@tensorflow/tfjs'
-import { BoundingBox } from '../yolo-box/common'
+import {
+  BoundingBox,
+  ClassFilterArgs,
+  decodeEndToEndBox,
+  filterBoxIndices,
+  NmsMode,
+  prepareBoxData,
+  readBoxData,
+  resolveScoreThreshold,
+  SelectedBoxes,
+  suppressBoxes,
+  suppressBoxesSync,
+  Suppression,
+  updateSelectedBoxes,
+  selectTopBoxes,
+} from '../yolo-box/common'
+import {
+  augmentInput,
+  Augmentation,
+  CoordinateSpace,
+  deaugmentOutput,
+  getArrayShape,
+  getAugmentations,
+  getImageSize,
+  getModelMetadata,
+  InputTransform,
+  isEndToEndOutput,
+  isEndToEndShape,
+  mapBox,
+  mapPoint,
+} from '../tensorflow/common'
+import { createOksSuppression } from './oks'
 
 export type Keypoint = {
   /** x of keypoint in px */
@@ -33,8 +64,15 @@ export type DecodePoseArgs = {
   num_keypoints: number
   /** for each keypoints, are them {x,y} or {x,y,visibility} */
   visibility: boolean
-  /** batched predict result, e.g. 1x17x8400 */
+  /** batched predict result, e.g. 1x17x8400, or 1x300x57 for end-to-end output */
   output: number[][][]
+  /**
+   * whether the output is in end-to-end layout (x1, y1, x2, y2, score, class, keypoints),
+   * e.g. exported with `nms=True` or YOLOv10 style models.
+   *
+   * default: auto detected from the output shape
+   */
+  end_to_end?: boolean
   /**
    * Number of boxes to return using non-max suppression.
    * If not provided, all boxes will be returned
@@ -54,6 +92,229 @@ export type DecodePoseArgs = {
    * default: `-Infinity`
    */
   scoreThreshold?: number
+  /**
+   * how non-max suppression treats overlapping boxes of different classes:
+   * - `'agnostic'`: suppress overlapping boxes regardless of class
+   * - `'per-class'`: only suppress overlapping boxes of the same class, same as Ultralytics' default
+   *
+   * default: `'agnostic'`
+   */
+  nms?: NmsMode
+  /**
+   * whether `maxOutputSize` applies to each class or to all classes in total.
+   * Only effective when `nms` is `'per-class'`.
+   *
+   * default: `false`
+   */
+  maxOutputSizePerClass?: boolean
+  /**
+   * how to suppress overlapping boxes:
+   * - `'nms'`: hard non-max suppression
+   * - `'soft-nms'`: decay the scores of overlapping boxes with Gaussian penalty, see `softNmsSigma`
+   * - `'diou-nms'`: non-max suppression with Distance-IoU, keeps overlapping boxes with distant centers
+   * - `'wbf'`: Weighted Boxes Fusion, fuse overlapping boxes by averaging the coordinates weighted by scores
+   * - `'oks-nms'`: non-max suppression with Object Keypoint Similarity, keeps close-together people whose boxes overlap heavily, see `oksThreshold`
+   * - custom function
+   *
+   * default: `'nms'`
+   */
+  suppression?: Suppression | 'oks-nms'
+  /**
+   * sigma of the Gaussian penalty, only effective when `suppression` is `'soft-nms'`.
+   *
+   * Boxes overlapping more than `iouThreshold` are still removed,
+   * set `iouThreshold` to `1` to only decay the scores.
+   *
+   * default: `0.5`
+   */
+  softNmsSigma?: number
+  /**
+   * the threshold for deciding whether poses overlap too much with respect to OKS,
+   * only effective when `suppression` is `'oks-nms'`.
+   *
+   * default: `0.5`
+   */
+  oksThreshold?: number
+  /**
+   * per-keypoint standard deviation of OKS, only effective when `suppression` is `'oks-nms'`.
+   *
+   * default: `cocoKeypointSigmas` for 17 keypoints, otherwise `1 / num_keypoints` for each keypoint
+   */
+  keypointSigmas?: number[]
+} & ClassFilterArgs
+
+export type DecodePoseDataArgs = Omit<DecodePoseArgs, 'output'> & {
+  /** flat batched predict result from `tensor.data()`, e.g. 1x17x8400 */
+  output: Float32Array
+  /** e.g. [1, 17, 8400], or [1, 300, 57] for end-to-end output */
+  output_shape: number[]
+}
+
+/**
+ * resolve the decode parameters from the args, model metadata, or output shape (in this order of priority)
+ */
+export function resolvePoseParams(
+  args: {
+    num_classes?: number
+    num_keypoints?: number
+    visibility?: boolean
+    end_to_end?: boolean
+    class_names?: string[]
+  },
+  model: tf_type.InferenceModel,
+  /** e.g. [1, 56, 8400], or [1, 300, 57] for end-to-end output */
+  output_shape: number[],
+): {
+  num_classes: number
+  num_keypoints: number
+  visibility: boolean
+  end_to_end: boolean
+  class_names?: string[]
+} {
+  let metadata = getModelMetadata(model)
+  let class_names = args.class_names ?? metadata.class_names
+  let num_classes = args.num_classes ?? class_names?.length
+  let num_keypoints = args.num_keypoints ?? metadata.keypoints
+  let visibility = args.visibility ?? metadata.visibility
+  let end_to_end = isEndToEndOutput(
+    args,
+    model,
+    output_shape,
+    // any number of keypoint features when not known yet
+    num_keypoints === undefined || visibility === undefined
+      ? undefined
+      : num_keypoints * (visibility ? 3 : 2),
+  )
+
+  let num_features = end_to_end ? output_shape[2] : output_shape[1]
+
+  if (num_classes === undefined) {
+    if (end_to_end || num_keypoints === undefined || visibility === undefined) {
+      throw new Error(
+        `cannot infer num_classes from output shape [${output_shape}], please specify num_classes`,
+      )
+    }
+    num_classes = num_features - 4 - num_keypoints * (visibility ? 3 : 2)
+  }
+
+  // e.g. 51 for 17 keypoints with {x,y,visibility}
+  let keypoint_features = end_to_end
+    ? num_features - 6
+    : num_features - 4 - num_classes
+
+  if (num_keypoints === undefined && visibility === undefined) {
+    if (keypoint_features % 3 === 0 && keypoint_features % 2 !== 0) {
+      visibility = true
+    } else if (keypoint_features % 2 === 0 && keypoint_features % 3 !== 0) {
+      visibility = false
+    } else {
+      throw new Error(
+        `cannot infer num_keypoints and visibility from output shape [${output_shape}], please specify num_keypoints and visibility`,
+      )
+    }
+  }
+  if (visibility === undefined) {
+    visibility = keypoint_features === num_keypoints! * 3
+  }
+  if (num_keypoints === undefined) {
+    num_keypoints = keypoint_features / (visibility ? 3 : 2)
+  }
+
+  if (
+    !(num_classes > 0) ||
+    !Number.isInteger(num_keypoints) ||
+    keypoint_features !== num_keypoints * (visibility ? 3 : 2)
+  ) {
+    throw new Error(
+      `output shape [${output_shape}] does not match num_classes (${num_classes}), num_keypoints (${num_keypoints}) and visibility (${visibility})`,
+    )
+  }
+
+  return { num_classes, num_keypoints, visibility, end_to_end, class_names }
+}
+
+/**
+ * Test-time augmentation: run the model on each augmented copy of the input,
+ * and concat the de-augmented outputs along the instances axis,
+ * so the predictions are fused by the non-max suppression when decoding.
+ *
+ * The keypoints of flipped copies are swapped according to `flip_idx`, e.g. left eye <-> right eye.
+ *
+ * output shape: [batch, features, instances * augmentations]
+ *
+ * Should be called within `tf.tidy()`.
+ */
+export function predictPoseAugmented(args: {
+  tf: typeof tf_type
+  model: tf_type.InferenceModel
+  /** preprocessed input, shape: [batch, height, width, channels] */
+  input: tf_type.Tensor
+  augment: true | Augmentation[]
+  num_classes?: number
+  num_keypoints?: number
+  visibility?: boolean
+  end_to_end?: boolean
+  /** default: `flip_idx` from model metadata */
+  flip_idx?: number[]
+}): tf_type.Tensor {
+  let { tf, model, input } = args
+  let input_shape = getImageSize(input)
+  let outputs = getAugmentations(args.augment).map(augmentation => {
+    let output = model.predict(
+      augmentInput(input, augmentation),
+      {},
+    ) as tf_type.Tensor
+    let { num_classes, num_keypoints, visibility, end_to_end } =
+      resolvePoseParams(args, model, output.shape)
+    if (end_to_end) {
+      throw new Error(
+        'test-time augmentation is not supported for end-to-end (NMS-free) output',
+      )
+    }
+
+    let offset = 4 + num_classes
+    let stride = visibility ? 3 : 2
+    let x_features = [0]
+    let y_features = [1]
+    for (let i = 0; i < num_keypoints; i++) {
+      x_features.push(offset + i * stride)
+      y_features.push(offset + i * stride + 1)
+    }
+
+    let flip_features: number[] | undefined
+    if (augmentation.flip) {
+      let flip_idx = args.flip_idx ?? getModelMetadata(model).flip_idx
+      if (!flip_idx) {
+        throw new Error(
+          'cannot flip the keypoints without flip_idx, please specify flip_idx',
+        )
+      }
+      if (flip_idx.length !== num_keypoints) {
+        throw new Error(
+          `expect flip_idx of ${num_keypoints} keypoints, but got ${flip_idx.length}`,
+        )
+      }
+      flip_features = Array.from({ length: output.shape[1]! }, (_, i) => i)
+      for (let i = 0; i < num_keypoints; i++) {
+        for (let j = 0; j < stride; j++) {
+          flip_features[offset + i * stride + j] =
+            offset + flip_idx[i] * stride + j
+        }
+      }
+    }
+
+    return deaugmentOutput({
+      tf,
+      output,
+      augmentation,
+      input_shape,
+      x_features,
+      y_features,
+      size_features: [2, 3],
+      flip_features,
+    })
+  })
+  return tf.concat(outputs, 2)
 }
 
 /**
@@ -69,14 +330,16 @@ export type DecodePoseArgs = {
  * The confidence are already normalized between 0 to 1.
  */
 export async function decodePose(args: DecodePoseArgs): Promise<PoseResult> {
-  let {
-    tf,
-    num_classes,
-    num_keypoints,
-    maxOutputSize,
-    iouThreshold,
-    scoreThreshold,
-  } = args
+  if (
+    args.end_to_end ??
+    isEndToEndShape(
+      getArrayShape(args.output),
+      args.num_keypoints * (args.visibility ? 3 : 2),
+    )
+  ) {
+    return decodePoseEndToEnd(args)
+  }
+  let { num_classes, num_keypoints, maxOutputSize } = args
   let length = 4 + num_classes + num_keypoints * (args.visibility ? 3 : 2)
 
   // e.g. 1x17x8400
@@ -126,18 +389,21 @@ export async function decodePose(args: DecodePoseArgs): Promise<PoseResult> {
     }
 
     let box_indices: number[]
+    let selected: SelectedBoxes | null = null
     if (maxOutputSize) {
-      let box_indices_tensor = await tf.image.nonMaxSuppressionAsync(
+      selected = await suppressBoxes({
+        ...args,
         boxes,
         scores,
+        cls_indices,
         maxOutputSize,
-        iouThreshold,
-        scoreThreshold,
-      )
-      box_indices = await box_indices_tensor.array()
-      box_indices_tensor.dispose()
+        suppression: resolvePoseSuppression(args, box_index =>
+          readKeypoints(args, batch, box_index),
+        ),
+      })
+      box_indices = selected.indices
     } else {
-      box_indices = Array.from({ length: num_boxes }, (_, i) => i)
+      box_indices = filterBoxIndices(args, scores, cls_indices)
     }
 
     let bounding_boxes: BoundingBoxWithKeypoints[] = []
@@ -152,17 +418,7 @@ export async function decodePose(args: DecodePoseArgs): Promise<PoseResult> {
       for (let i = 0; i < num_classes; i++) {
         all_confidences[i] = batch[4 + i][box_index]
       }
-      let keypoints: Keypoint[] = []
-      for (
-        let offset = 4 + num_classes;
-        offset < length;
-        offset += args.visibility ? 3 : 2
-      ) {
-        let x = batch[offset + 0][box_index]
-        let y = batch[offset + 1][box_index]
-        let visibility = args.visibility ? batch[offset + 2][box_index] : 1
-        keypoints.push({ x, y, visibility })
-      }
+      let keypoints = readKeypoints(args, batch, box_index)
       bounding_boxes.push({
         x,
         y,
@@ -174,6 +430,9 @@ export async function decodePose(args: DecodePoseArgs): Promise<PoseResult> {
         keypoints,
       })
     }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
     result.push(bounding_boxes)
   }
   return result
@@ -183,14 +442,16 @@ export async function decodePose(args: DecodePoseArgs): Promise<PoseResult> {
  * Sync version of `decodePose`.
  */
 export function decodePoseSync(args: DecodePoseArgs): PoseResult {
-  let {
-    tf,
-    num_classes,
-    num_keypoints,
-    maxOutputSize,
-    iouThreshold,
-    scoreThreshold,
-  } = args
+  if (
+    args.end_to_end ??
+    isEndToEndShape(
+      getArrayShape(args.output),
+      args.num_keypoints * (args.visibility ? 3 : 2),
+    )
+  ) {
+    return decodePoseEndToEnd(args)
+  }
+  let { num_classes, num_keypoints, maxOutputSize } = args
   let length = 4 + num_classes + num_keypoints * (args.visibility ? 3 : 2)
 
   // e.g. 1x17x8400
@@ -240,20 +501,21 @@ export function decodePoseSync(args: DecodePoseArgs): PoseResult {
     }
 
     let box_indices: number[]
+    let selected: SelectedBoxes | null = null
     if (maxOutputSize) {
-      box_indices = tf.tidy(() =>
-        tf.image
-          .nonMaxSuppression(
-            boxes,
-            scores,
-            maxOutputSize,
-            iouThreshold,
-            scoreThreshold,
-          )
-          .arraySync(),
-      )
+      selected = suppressBoxesSync({
+        ...args,
+        boxes,
+        scores,
+        cls_indices,
+        maxOutputSize,
+        suppression: resolvePoseSuppression(args, box_index =>
+          readKeypoints(args, batch, box_index),
+        ),
+      })
+      box_indices = selected.indices
     } else {
-      box_indices = Array.from({ length: num_boxes }, (_, i) => i)
+      box_indices = filterBoxIndices(args, scores, cls_indices)
     }
 
     let bounding_boxes: BoundingBoxWithKeypoints[] = []
@@ -268,17 +530,7 @@ export function decodePoseSync(args: DecodePoseArgs): PoseResult {
       for (let i = 0; i < num_classes; i++) {
         all_confidences[i] = batch[4 + i][box_index]
       }
-      let keypoints: Keypoint[] = []
-      for (
-        let offset = 4 + num_classes;
-        offset < length;
-        offset += args.visibility ? 3 : 2
-      ) {
-        let x = batch[offset + 0][box_index]
-        let y = batch[offset + 1][box_index]
-        let visibility = args.visibility ? batch[offset + 2][box_index] : 1
-        keypoints.push({ x, y, visibility })
-      }
+      let keypoints = readKeypoints(args, batch, box_index)
       bounding_boxes.push({
         x,
         y,
@@ -290,7 +542,317 @@ export function decodePoseSync(args: DecodePoseArgs): PoseResult {
         keypoints,
       })
     }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
     result.push(bounding_boxes)
   }
   return result
 }
+
+// the feature `f` of instance `i` is at `batch[f][i]`
+function readKeypoints(
+  args: { num_classes: number; num_keypoints: number; visibility: boolean },
+  batch: number[][],
+  box_index: number,
+): Keypoint[] {
+  let keypoint_features = args.visibility ? 3 : 2
+  let keypoints: Keypoint[] = []
+  for (let k = 0; k < args.num_keypoints; k++) {
+    let feature = 4 + args.num_classes + k * keypoint_features
+    let x = batch[feature][box_index]
+    let y = batch[feature + 1][box_index]
+    let visibility = args.visibility ? batch[feature + 2][box_index] : 1
+    keypoints.push({ x, y, visibility })
+  }
+  return keypoints
+}
+
+// replace `'oks-nms'` with the suppression function comparing the keypoints of the boxes
+function resolvePoseSuppression(
+  args: {
+    suppression?: Suppression | 'oks-nms'
+    oksThreshold?: number
+    keypointSigmas?: number[]
+  },
+  getKeypoints: (box_index: number) => Keypoint[],
+): Suppression | undefined {
+  if (args.suppression !== 'oks-nms') {
+    return args.suppression
+  }
+  return createOksSuppression({
+    getKeypoints,
+    oksThreshold: args.oksThreshold,
+    sigmas: args.keypointSigmas,
+  })
+}
+
+/**
+ * tensorflow output: [batch, instances, features]
+ * features:
+ * - 4: x1, y1, x2, y2
+ * - 1: confidence
+ * - 1: class index
+ * - num_keypoints * 3: keypoint x, y, visibility
+ *
+ * e.g. 1x300x57 for 1 batch of 300 instances with 17 keypoints
+ * (57 = 6 + 17 * 3)
+ *
+ * The boxes are already suppressed by the model, so non-max suppression is skipped.
+ * Only the confidence of the detected class is available, the others in `all_confidences` are `0`.
+ */
+function decodePoseEndToEnd(args: DecodePoseArgs): PoseResult {
+  let { num_classes, num_keypoints, maxOutputSize } = args
+  let getScoreThreshold = resolveScoreThreshold(args)
+  let keypoint_features = args.visibility ? 3 : 2
+  let length = 6 + num_keypoints * keypoint_features
+
+  // e.g. 1x300x57
+  let batches = args.output
+
+  let result: PoseResult = []
+  for (let batch of batches) {
+    // e.g. 300x57
+
+    let bounding_boxes: BoundingBoxWithKeypoints[] = []
+    for (let row of batch) {
+      if (row.length !== length) {
+        throw new Error(`data[batch][box].length must be ${length}`)
+      }
+      let confidence = row[4]
+      if (!(confidence > getScoreThreshold(Math.round(row[5])))) {
+        continue
+      }
+      let keypoints: Keypoint[] = []
+      for (let offset = 6; offset < length; offset += keypoint_features) {
+        let x = row[offset + 0]
+        let y = row[offset + 1]
+        let visibility = args.visibility ? row[offset + 2] : 1
+        keypoints.push({ x, y, visibility })
+      }
+      bounding_boxes.push({
+        ...decodeEndToEndBox(row, num_classes),
+        keypoints,
+      })
+    }
+    result.push(selectTopBoxes(bounding_boxes, maxOutputSize))
+  }
+  return result
+}
+
+/**
+ * Same as `decodePose`, but reads from the flat output of `tensor.data()` with explicit strides,
+ * to avoid allocating nested arrays of `tensor.array()`.
+ */
+export async function decodePoseData(
+  args: DecodePoseDataArgs,
+): Promise<PoseResult> {
+  if (
+    args.end_to_end ??
+    isEndToEndShape(
+      args.output_shape,
+      args.num_keypoints * (args.visibility ? 3 : 2),
+    )
+  ) {
+    return decodePoseDataEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
+  let [batch_size, num_features, num_boxes] = args.output_shape
+  let length = 4 + num_classes + args.num_keypoints * (args.visibility ? 3 : 2)
+
+  if (num_features !== length) {
+    throw new Error(`output_shape[1] must be ${length}`)
+  }
+
+  let result: PoseResult = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let data = args.output.subarray(
+      batch * num_features * num_boxes,
+      (batch + 1) * num_features * num_boxes,
+    )
+    let { boxes, scores, cls_indices } = prepareBoxData(
+      data,
+      num_boxes,
+      num_classes,
+    )
+
+    let box_indices: ArrayLike<number>
+    let selected: SelectedBoxes | null = null
+    if (maxOutputSize) {
+      selected = await suppressBoxes({
+        ...args,
+        boxes,
+        scores,
+        cls_indices,
+        maxOutputSize,
+        suppression: resolvePoseSuppression(args, box_index =>
+          readKeypointsData(args, data, num_boxes, box_index),
+        ),
+      })
+      box_indices = selected.indices
+    } else {
+      box_indices = filterBoxIndices(args, scores, cls_indices)
+    }
+
+    let bounding_boxes: BoundingBoxWithKeypoints[] = []
+    for (let i = 0; i < box_indices.length; i++) {
+      let box_index = box_indices[i]
+      bounding_boxes.push({
+        ...readBoxData(data, num_boxes, num_classes, box_index, cls_indices),
+        keypoints: readKeypointsData(args, data, num_boxes, box_index),
+      })
+    }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+/**
+ * Sync version of `decodePoseData`.
+ */
+export function decodePoseDataSync(args: DecodePoseDataArgs): PoseResult {
+  if (
+    args.end_to_end ??
+    isEndToEndShape(
+      args.output_shape,
+      args.num_keypoints * (args.visibility ? 3 : 2),
+    )
+  ) {
+    return decodePoseDataEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
+  let [batch_size, num_features, num_boxes] = args.output_shape
+  let length = 4 + num_classes + args.num_keypoints * (args.visibility ? 3 : 2)
+
+  if (num_features !== length) {
+    throw new Error(`output_shape[1] must be ${length}`)
+  }
+
+  let result: PoseResult = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let data = args.output.subarray(
+      batch * num_features * num_boxes,
+      (batch + 1) * num_features * num_boxes,
+    )
+    let { boxes, scores, cls_indices } = prepareBoxData(
+      data,
+      num_boxes,
+      num_classes,
+    )
+
+    let box_indices: ArrayLike<number>
+    let selected: SelectedBoxes | null = null
+    if (maxOutputSize) {
+      selected = suppressBoxesSync({
+        ...args,
+        boxes,
+        scores,
+        cls_indices,
+        maxOutputSize,
+        suppression: resolvePoseSuppression(args, box_index =>
+          readKeypointsData(args, data, num_boxes, box_index),
+        ),
+      })
+      box_indices = selected.indices
+    } else {
+      box_indices = filterBoxIndices(args, scores, cls_indices)
+    }
+
+    let bounding_boxes: BoundingBoxWithKeypoints[] = []
+    for (let i = 0; i < box_indices.length; i++) {
+      let box_index = box_indices[i]
+      bounding_boxes.push({
+        ...readBoxData(data, num_boxes, num_classes, box_index, cls_indices),
+        keypoints: readKeypointsData(args, data, num_boxes, box_index),
+      })
+    }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+function decodePoseDataEndToEnd(args: DecodePoseDataArgs): PoseResult {
+  let { num_classes, num_keypoints, maxOutputSize } = args
+  let getScoreThreshold = resolveScoreThreshold(args)
+  let keypoint_features = args.visibility ? 3 : 2
+  let [batch_size, num_rows, num_features] = args.output_shape
+  let length = 6 + num_keypoints * keypoint_features
+
+  if (num_features !== length) {
+    throw new Error(`output_shape[2] must be ${length}`)
+  }
+
+  let result: PoseResult = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let bounding_boxes: BoundingBoxWithKeypoints[] = []
+    for (let i = 0; i < num_rows; i++) {
+      let offset = (batch * num_rows + i) * num_features
+      let row = args.output.subarray(offset, offset + num_features)
+      if (!(row[4] > getScoreThreshold(Math.round(row[5])))) {
+        continue
+      }
+      let keypoints: Keypoint[] = []
+      for (let offset = 6; offset < length; offset += keypoint_features) {
+        let x = row[offset + 0]
+        let y = row[offset + 1]
+        let visibility = args.visibility ? row[offset + 2] : 1
+        keypoints.push({ x, y, visibility })
+      }
+      bounding_boxes.push({
+        ...decodeEndToEndBox(row, num_classes),
+        keypoints,
+      })
+    }
+    result.push(selectTopBoxes(bounding_boxes, maxOutputSize))
+  }
+  return result
+}
+
+// the feature `f` of instance `i` is at `data[f * num_boxes + i]`
+function readKeypointsData(
+  args: { num_classes: number; num_keypoints: number; visibility: boolean },
+  data: Float32Array,
+  num_boxes: number,
+  box_index: number,
+): Keypoint[] {
+  let keypoint_features = args.visibility ? 3 : 2
+  let keypoints: Keypoint[] = []
+  for (let k = 0; k < args.num_keypoints; k++) {
+    let feature = 4 + args.num_classes + k * keypoint_features
+    let x = data[feature * num_boxes + box_index]
+    let y = data[(feature + 1) * num_boxes + box_index]
+    let visibility = args.visibility
+      ? data[(feature + 2) * num_boxes + box_index]
+      : 1
+    keypoints.push({ x, y, visibility })
+  }
+  return keypoints
+}
+
+/**
+ * map all bounding boxes and keypoints from input_shape pixel unit to the given coordinate space.
+ *
+ * The result is updated in-place.
+ */
+export function mapPoseResult(
+  result: PoseResult,
+  transform: InputTransform,
+  coordinate: CoordinateSpace,
+): PoseResult {
+  if (coordinate === 'input') return result
+  for (let bounding_boxes of result) {
+    for (let box of bounding_boxes) {
+      mapBox(box, transform, coordinate)
+      for (let keypoint of box.keypoints) {
+        mapPoint(keypoint, transform, coordinate)
+      }
+    }
+  }
+  return result
+}
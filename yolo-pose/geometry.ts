@@ -0,0 +1,296 @@
+import { Keypoint } from './common'
+import { getSkeleton, Skeleton } from './skeleton'
+
+/** keypoint referenced by index or by name in the skeleton, e.g. `5` or `'left_shoulder'` */
+export type KeypointKey = number | string
+
+export type Point = { x: number; y: number }
+
+/**
+ * map the keypoints to the names in the skeleton,
+ * e.g. `named_keypoints.left_elbow` instead of `keypoints[7]`
+ *
+ * default skeleton: the built-in skeleton matching the number of keypoints
+ */
+export function getNamedKeypoints(
+  keypoints: Keypoint[],
+  skeleton?: Skeleton,
+): Record<string, Keypoint> {
+  let { keypoint_names } = resolveSkeleton(keypoints, skeleton)
+  let named_keypoints: Record<string, Keypoint> = {}
+  keypoint_names.forEach((name, i) => {
+    named_keypoints[name] = keypoints[i]
+  })
+  return named_keypoints
+}
+
+/** get the keypoint by index or by name in the skeleton */
+export function getKeypoint(
+  keypoints: Keypoint[],
+  key: KeypointKey,
+  skeleton?: Skeleton,
+): Keypoint {
+  let index = getKeypointIndex(keypoints, key, skeleton)
+  let keypoint = keypoints[index]
+  if (!keypoint) {
+    throw new Error(
+      `keypoint index ${index} out of range, only ${keypoints.length} keypoints`,
+    )
+  }
+  return keypoint
+}
+
+function getKeypointIndex(
+  keypoints: Keypoint[],
+  key: KeypointKey,
+  skeleton?: Skeleton,
+): number {
+  if (typeof key === 'number') {
+    return key
+  }
+  let index = resolveSkeleton(keypoints, skeleton).keypoint_names.indexOf(key)
+  if (index === -1) {
+    throw new Error(`unknown keypoint name: ${JSON.stringify(key)}`)
+  }
+  return index
+}
+
+function resolveSkeleton(keypoints: Keypoint[], skeleton?: Skeleton): Skeleton {
+  skeleton ||= getSkeleton(keypoints.length)
+  if (!skeleton) {
+    throw new Error(
+      `no built-in skeleton for ${keypoints.length} keypoints, please specify skeleton`,
+    )
+  }
+  if (skeleton.keypoint_names.length !== keypoints.length) {
+    throw new Error(
+      `expect ${skeleton.keypoint_names.length} keypoints in the skeleton, but got ${keypoints.length} keypoints`,
+    )
+  }
+  return skeleton
+}
+
+/** euclidean distance between two points */
+export function calcDistance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y)
+}
+
+/**
+ * angle at the joint between the two limbs, in degrees, in the range of [0, 180].
+ *
+ * e.g. elbow angle: `calcJointAngle(shoulder, elbow, wrist)`,
+ * it is `180` when the arm is straight.
+ */
+export function calcJointAngle(a: Point, joint: Point, b: Point): number {
+  let angle =
+    Math.atan2(b.y - joint.y, b.x - joint.x) -
+    Math.atan2(a.y - joint.y, a.x - joint.x)
+  let degrees = Math.abs((angle * 180) / Math.PI)
+  return degrees > 180 ? 360 - degrees : degrees
+}
+
+/**
+ * ratio of the length of the limb over the length of the reference limb,
+ * e.g. forearm over upper arm.
+ *
+ * It is invariant to the image scale and distance to the camera.
+ */
+export function calcLimbLengthRatio(
+  limb: [from: Point, to: Point],
+  reference: [from: Point, to: Point],
+): number {
+  return (
+    calcDistance(limb[0], limb[1]) / calcDistance(reference[0], reference[1])
+  )
+}
+
+export type TorsoOrientation = {
+  /**
+   * angle of the spine (from the center of hips to the center of shoulders) from the upward vertical,
+   * in degrees, in the range of (-180, 180], clockwise in image coordinate.
+   *
+   * e.g. `0` when standing upright, `90` when lying with the head towards the right side of the image
+   */
+  spine_angle: number
+  /**
+   * angle of the line from the left shoulder to the right shoulder from the horizontal,
+   * in degrees, in the range of (-180, 180], clockwise in image coordinate.
+   */
+  shoulder_angle: number
+  /** same as `shoulder_angle`, but from the left hip to the right hip */
+  hip_angle: number
+  /**
+   * shoulder width over spine length,
+   * smaller when the body is turned sideways to the camera
+   */
+  width_ratio: number
+  /**
+   * - `'front'`: the left shoulder of the person is on the right side of the image
+   * - `'back'`: the left shoulder of the person is on the left side of the image
+   *
+   * assuming the person is upright, i.e. `spine_angle` is close to `0`
+   */
+  facing: 'front' | 'back'
+}
+
+/**
+ * orientation of the torso from the shoulders and hips.
+ *
+ * The skeleton should have keypoints named
+ * `left_shoulder`, `right_shoulder`, `left_hip` and `right_hip`, e.g. `cocoSkeleton`.
+ */
+export function calcTorsoOrientation(
+  keypoints: Keypoint[],
+  skeleton?: Skeleton,
+): TorsoOrientation {
+  let left_shoulder = getKeypoint(keypoints, 'left_shoulder', skeleton)
+  let right_shoulder = getKeypoint(keypoints, 'right_shoulder', skeleton)
+  let left_hip = getKeypoint(keypoints, 'left_hip', skeleton)
+  let right_hip = getKeypoint(keypoints, 'right_hip', skeleton)
+
+  let shoulder_center = midPoint(left_shoulder, right_shoulder)
+  let hip_center = midPoint(left_hip, right_hip)
+
+  // the upward vertical is -y in image coordinate
+  let spine_angle = toDegrees(
+    Math.atan2(
+      shoulder_center.x - hip_center.x,
+      hip_center.y - shoulder_center.y,
+    ),
+  )
+
+  // rotate the shoulder line by the spine, so the facing is correct when leaning
+  let spine_radians = (spine_angle * Math.PI) / 180
+  let shoulder_x =
+    (right_shoulder.x - left_shoulder.x) * Math.cos(spine_radians) +
+    (right_shoulder.y - left_shoulder.y) * Math.sin(spine_radians)
+
+  return {
+    spine_angle,
+    shoulder_angle: calcLineAngle(left_shoulder, right_shoulder),
+    hip_angle: calcLineAngle(left_hip, right_hip),
+    width_ratio:
+      calcDistance(left_shoulder, right_shoulder) /
+      calcDistance(shoulder_center, hip_center),
+    facing: shoulder_x < 0 ? 'front' : 'back',
+  }
+}
+
+function midPoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+}
+
+function calcLineAngle(from: Point, to: Point): number {
+  return toDegrees(Math.atan2(to.y - from.y, to.x - from.x))
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI
+}
+
+export type NormalizePoseArgs = {
+  /**
+   * keypoints with visibility below this threshold are not used to calculate the center and scale,
+   * but they are still transformed.
+   *
+   * default: `0.5`
+   */
+  visibility_threshold?: number
+}
+
+/**
+ * translate and scale the keypoints to be invariant to the position and size of the person.
+ *
+ * The center is the mean of the visible keypoints,
+ * and the scale is the root mean square distance of the visible keypoints to the center,
+ * i.e. the normalized visible keypoints have mean `(0, 0)` and root mean square distance `1`.
+ *
+ * returns the normalized copies, the input keypoints are not modified.
+ */
+export function normalizePose(
+  keypoints: Keypoint[],
+  args: NormalizePoseArgs = {},
+): Keypoint[] {
+  let visibility_threshold = args.visibility_threshold ?? 0.5
+  let visible = keypoints.filter(
+    keypoint => keypoint.visibility >= visibility_threshold,
+  )
+  let { center, scale } = calcPoseFrame(
+    visible.length > 0 ? visible : keypoints,
+  )
+  return keypoints.map(keypoint => ({
+    x: (keypoint.x - center.x) / scale,
+    y: (keypoint.y - center.y) / scale,
+    visibility: keypoint.visibility,
+  }))
+}
+
+function calcPoseFrame(points: Point[]): { center: Point; scale: number } {
+  let center = { x: 0, y: 0 }
+  for (let point of points) {
+    center.x += point.x / points.length
+    center.y += point.y / points.length
+  }
+  let sum = 0
+  for (let point of points) {
+    sum += (point.x - center.x) ** 2 + (point.y - center.y) ** 2
+  }
+  // avoid division by zero when all points overlap
+  let scale = Math.sqrt(sum / points.length) || 1
+  return { center, scale }
+}
+
+/**
+ * similarity of two poses with the same keypoint layout,
+ * invariant to the position and size of the person.
+ *
+ * Only the keypoints visible in both poses are compared,
+ * they are normalized like `normalizePose()` then compared by cosine similarity.
+ *
+ * returns a score in the range of [-1, 1], `1` when the poses are identical up to translation and scaling,
+ * or `0` when less than 2 keypoints are visible in both poses.
+ */
+export function calcPoseSimilarity(
+  a: Keypoint[],
+  b: Keypoint[],
+  args: NormalizePoseArgs = {},
+): number {
+  if (a.length !== b.length) {
+    throw new Error(
+      `expect the same number of keypoints, but got ${a.length} and ${b.length}`,
+    )
+  }
+  let visibility_threshold = args.visibility_threshold ?? 0.5
+  let points_a: Point[] = []
+  let points_b: Point[] = []
+  for (let i = 0; i < a.length; i++) {
+    if (
+      a[i].visibility >= visibility_threshold &&
+      b[i].visibility >= visibility_threshold
+    ) {
+      points_a.push(a[i])
+      points_b.push(b[i])
+    }
+  }
+  if (points_a.length < 2) {
+    return 0
+  }
+  let frame_a = calcPoseFrame(points_a)
+  let frame_b = calcPoseFrame(points_b)
+  let dot = 0
+  let norm_a = 0
+  let norm_b = 0
+  for (let i = 0; i < points_a.length; i++) {
+    let ax = points_a[i].x - frame_a.center.x
+    let ay = points_a[i].y - frame_a.center.y
+    let bx = points_b[i].x - frame_b.center.x
+    let by = points_b[i].y - frame_b.center.y
+    dot += ax * bx + ay * by
+    norm_a += ax * ax + ay * ay
+    norm_b += bx * bx + by * by
+  }
+  if (norm_a === 0 || norm_b === 0) {
+    return 0
+  }
+  return dot / Math.sqrt(norm_a * norm_b)
+}
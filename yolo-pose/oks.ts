@@ -0,0 +1,228 @@
+import { SelectedBoxes, SuppressionArgs } from '../yolo-box/common'
+import { BoundingBoxWithKeypoints, Keypoint } from './common'
+
+/** per-keypoint standard deviation of the 17 COCO keypoints, used by the COCO keypoint evaluation */
+export const cocoKeypointSigmas = [
+  0.26, 0.25, 0.25, 0.35, 0.35, 0.79, 0.79, 0.72, 0.72, 0.62, 0.62, 1.07, 1.07,
+  0.87, 0.87, 0.89, 0.89,
+].map(sigma => sigma / 10)
+
+/**
+ * resolve the per-keypoint sigmas for OKS.
+ *
+ * default: `cocoKeypointSigmas` for 17 keypoints,
+ * otherwise `1 / num_keypoints` for each keypoint, same as Ultralytics
+ */
+export function getKeypointSigmas(
+  num_keypoints: number,
+  sigmas?: number[],
+): number[] {
+  if (sigmas) {
+    if (sigmas.length !== num_keypoints) {
+      throw new Error(
+        `expect ${num_keypoints} keypoint sigmas, but got ${sigmas.length}`,
+      )
+    }
+    return sigmas
+  }
+  if (num_keypoints === cocoKeypointSigmas.length) {
+    return cocoKeypointSigmas
+  }
+  return new Array(num_keypoints).fill(1 / num_keypoints)
+}
+
+export type OksArgs = {
+  /**
+   * area of the reference object in pixel unit, used as the scale of the keypoint distances,
+   * e.g. the segmentation area in COCO annotation
+   */
+  area: number
+  /** default: `getKeypointSigmas()` by the number of keypoints */
+  sigmas?: number[]
+  /**
+   * keypoints of the reference with visibility below this threshold are not compared.
+   *
+   * default: `0.5`
+   */
+  visibility_threshold?: number
+}
+
+/**
+ * Object Keypoint Similarity (OKS) of the keypoints against the reference keypoints,
+ * e.g. prediction against ground truth, in the range of [0, 1].
+ *
+ * returns `0` when no keypoint of the reference is visible.
+ */
+export function calcOKS(
+  reference: Keypoint[],
+  keypoints: Keypoint[],
+  args: OksArgs,
+): number {
+  if (reference.length !== keypoints.length) {
+    throw new Error(
+      `expect the same number of keypoints, but got ${reference.length} and ${keypoints.length}`,
+    )
+  }
+  let sigmas = getKeypointSigmas(reference.length, args.sigmas)
+  let visibility_threshold = args.visibility_threshold ?? 0.5
+  // avoid division by zero for degenerated boxes
+  let area = args.area + Number.EPSILON
+  let sum = 0
+  let count = 0
+  for (let i = 0; i < reference.length; i++) {
+    if (!(reference[i].visibility >= visibility_threshold)) continue
+    let dx = keypoints[i].x - reference[i].x
+    let dy = keypoints[i].y - reference[i].y
+    let variance = (2 * sigmas[i]) ** 2
+    sum += Math.exp(-(dx * dx + dy * dy) / (2 * area * variance))
+    count++
+  }
+  return count === 0 ? 0 : sum / count
+}
+
+/**
+ * approximate the object area for OKS from the box,
+ * the box is larger than the segmentation area of a person, same as Ultralytics
+ */
+function getOksArea(box: { width: number; height: number }): number {
+  return box.width * box.height * 0.53
+}
+
+/**
+ * create a suppression function comparing the boxes by OKS instead of IoU,
+ * for `suppressBoxes()` or the `suppression` option.
+ *
+ * Greedy non-max suppression: a pose is suppressed when its OKS against a selected pose with higher score exceeds `oksThreshold`,
+ * so the close-together people with heavily overlapping boxes are kept.
+ * All keypoints are compared regardless of their visibility.
+ */
+export function createOksSuppression(args: {
+  /** keypoints of each box, by the original index before grouping by class */
+  getKeypoints: (index: number) => Keypoint[]
+  /** default: `0.5` */
+  oksThreshold?: number
+  /** default: `getKeypointSigmas()` by the number of keypoints */
+  sigmas?: number[]
+}): (args: SuppressionArgs) => SelectedBoxes {
+  let oksThreshold = args.oksThreshold ?? 0.5
+  return ({ boxes, scores, maxOutputSize, scoreThreshold, indices }) => {
+    let candidates: number[] = []
+    for (let i = 0; i < scores.length; i++) {
+      if (scores[i] > scoreThreshold) {
+        candidates.push(i)
+      }
+    }
+    candidates.sort((a, b) => scores[b] - scores[a])
+
+    let selected: { index: number; keypoints: Keypoint[]; area: number }[] = []
+    for (let index of candidates) {
+      if (selected.length >= maxOutputSize) {
+        break
+      }
+      let keypoints = args.getKeypoints(indices ? indices[index] : index)
+      let suppressed = selected.some(
+        other =>
+          calcOKS(other.keypoints, keypoints, {
+            area: other.area,
+            sigmas: args.sigmas,
+            visibility_threshold: -Infinity,
+          }) > oksThreshold,
+      )
+      if (!suppressed) {
+        let offset = index * 4
+        let width = boxes[offset + 2] - boxes[offset + 0]
+        let height = boxes[offset + 3] - boxes[offset + 1]
+        selected.push({ index, keypoints, area: getOksArea({ width, height }) })
+      }
+    }
+    return { indices: selected.map(pose => pose.index) }
+  }
+}
+
+export type MatchPosesArgs = {
+  /**
+   * the minimum OKS to be matched.
+   *
+   * default: `0.5`
+   */
+  min_oks?: number
+  /** default: `getKeypointSigmas()` by the number of keypoints */
+  sigmas?: number[]
+  /**
+   * keypoints of the reference poses with visibility below this threshold are not compared.
+   *
+   * default: `0.5`
+   */
+  visibility_threshold?: number
+  /**
+   * whether to only match the poses of the same class.
+   *
+   * default: `false`
+   */
+  per_class?: boolean
+}
+
+export type MatchPosesResult = {
+  /** matched pairs, sorted by OKS in descending order */
+  matches: { reference_index: number; pose_index: number; oks: number }[]
+  unmatched_references: number[]
+  unmatched_poses: number[]
+}
+
+/**
+ * Greedy one-to-one matching of the poses by highest OKS,
+ * e.g. associating the poses across video frames, or matching the predictions with the ground truth for evaluation.
+ *
+ * The area of the reference box is used as the OKS scale,
+ * approximated as `width * height * 0.53`, same as Ultralytics.
+ */
+export function matchPosesByOKS(
+  /** e.g. ground truth, or the poses of the previous frame */
+  references: BoundingBoxWithKeypoints[],
+  /** e.g. predictions, or the poses of the current frame */
+  poses: BoundingBoxWithKeypoints[],
+  args: MatchPosesArgs = {},
+): MatchPosesResult {
+  let min_oks = args.min_oks ?? 0.5
+  let pairs: MatchPosesResult['matches'] = []
+  references.forEach((reference, reference_index) => {
+    let area = getOksArea(reference)
+    poses.forEach((pose, pose_index) => {
+      if (args.per_class && reference.class_index !== pose.class_index) {
+        return
+      }
+      let oks = calcOKS(reference.keypoints, pose.keypoints, {
+        area,
+        sigmas: args.sigmas,
+        visibility_threshold: args.visibility_threshold,
+      })
+      if (oks >= min_oks) {
+        pairs.push({ reference_index, pose_index, oks })
+      }
+    })
+  })
+  pairs.sort((a, b) => b.oks - a.oks)
+
+  let matched_references = new Set<number>()
+  let matched_poses = new Set<number>()
+  let matches: MatchPosesResult['matches'] = []
+  for (let pair of pairs) {
+    if (
+      matched_references.has(pair.reference_index) ||
+      matched_poses.has(pair.pose_index)
+    ) {
+      continue
+    }
+    matched_references.add(pair.reference_index)
+    matched_poses.add(pair.pose_index)
+    matches.push(pair)
+  }
+
+  return {
+    matches,
+    unmatched_references: references
+      .map((_, i) => i)
+      .filter(i => !matched_references.has(i)),
+    unmatched_poses: poses.map((_, j) => j).filter(j => !matched_poses.has(j)),
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Keypoint names and limb connections of a pose, used by `drawPose()` and `getNamedKeypoints()`.
+ *
+ * Custom skeletons can be defined for models trained on other keypoint datasets.
+ */
+export type Skeleton = {
+  /** name of each keypoint, e.g. `'left_shoulder'` */
+  keypoint_names: string[]
+  /** pairs of keypoint indices connected as limbs */
+  limbs: [from: number, to: number][]
+  /** color of each limb, default: `'lime'` */
+  limb_colors?: string[]
+  /** color of each keypoint, default: `'red'` */
+  keypoint_colors?: string[]
+  /**
+   * for each keypoint, the index of the mirrored keypoint when the image is flipped horizontally,
+   * e.g. left eye <-> right eye
+   */
+  flip_idx?: number[]
+}
+
+// same palette as Ultralytics
+const orange = '#ff8000'
+const magenta = '#ff33ff'
+const blue = '#3399ff'
+const green = '#00ff00'
+
+/** 17 keypoints of COCO dataset, same as the pre-trained YOLO pose models */
+export const cocoSkeleton: Skeleton = {
+  keypoint_names: [
+    'nose',
+    'left_eye',
+    'right_eye',
+    'left_ear',
+    'right_ear',
+    'left_shoulder',
+    'right_shoulder',
+    'left_elbow',
+    'right_elbow',
+    'left_wrist',
+    'right_wrist',
+    'left_hip',
+    'right_hip',
+    'left_knee',
+    'right_knee',
+    'left_ankle',
+    'right_ankle',
+  ],
+  limbs: [
+    // legs
+    [15, 13],
+    [13, 11],
+    [16, 14],
+    [14, 12],
+    // body
+    [11, 12],
+    [5, 11],
+    [6, 12],
+    // arms
+    [5, 6],
+    [5, 7],
+    [6, 8],
+    [7, 9],
+    [8, 10],
+    // head
+    [1, 2],
+    [0, 1],
+    [0, 2],
+    [1, 3],
+    [2, 4],
+    [3, 5],
+    [4, 6],
+  ],
+  limb_colors: [
+    ...new Array(4).fill(blue),
+    ...new Array(3).fill(magenta),
+    ...new Array(5).fill(orange),
+    ...new Array(7).fill(green),
+  ],
+  keypoint_colors: [
+    ...new Array(5).fill(green),
+    ...new Array(6).fill(orange),
+    ...new Array(6).fill(blue),
+  ],
+  flip_idx: [0, 2, 1, 4, 3, 6, 5, 8, 7, 10, 9, 12, 11, 14, 13, 16, 15],
+}
+
+const finger_colors = [orange, magenta, blue, green, '#ff3333']
+
+/** 21 keypoints of a hand, same as the hand-keypoints dataset of Ultralytics (and MediaPipe) */
+export const handSkeleton: Skeleton = {
+  keypoint_names: [
+    'wrist',
+    'thumb_cmc',
+    'thumb_mcp',
+    'thumb_ip',
+    'thumb_tip',
+    'index_finger_mcp',
+    'index_finger_pip',
+    'index_finger_dip',
+    'index_finger_tip',
+    'middle_finger_mcp',
+    'middle_finger_pip',
+    'middle_finger_dip',
+    'middle_finger_tip',
+    'ring_finger_mcp',
+    'ring_finger_pip',
+    'ring_finger_dip',
+    'ring_finger_tip',
+    'pinky_mcp',
+    'pinky_pip',
+    'pinky_dip',
+    'pinky_tip',
+  ],
+  limbs: [
+    // fingers from the wrist (or palm) to the tip
+    [0, 1],
+    [1, 2],
+    [2, 3],
+    [3, 4],
+    [0, 5],
+    [5, 6],
+    [6, 7],
+    [7, 8],
+    [5, 9],
+    [9, 10],
+    [10, 11],
+    [11, 12],
+    [9, 13],
+    [13, 14],
+    [14, 15],
+    [15, 16],
+    [13, 17],
+    [0, 17],
+    [17, 18],
+    [18, 19],
+    [19, 20],
+  ],
+  limb_colors: [
+    ...new Array(4).fill(finger_colors[0]),
+    ...new Array(4).fill(finger_colors[1]),
+    ...new Array(4).fill(finger_colors[2]),
+    ...new Array(4).fill(finger_colors[3]),
+    ...new Array(5).fill(finger_colors[4]),
+  ],
+  keypoint_colors: [
+    'white',
+    ...new Array(4).fill(finger_colors[0]),
+    ...new Array(4).fill(finger_colors[1]),
+    ...new Array(4).fill(finger_colors[2]),
+    ...new Array(4).fill(finger_colors[3]),
+    ...new Array(4).fill(finger_colors[4]),
+  ],
+  // a flipped left hand looks like a right hand, the keypoints are not swapped
+  flip_idx: Array.from({ length: 21 }, (_, i) => i),
+}
+
+/** 5 facial landmarks, same as the YOLO face models (and RetinaFace) */
+export const faceSkeleton: Skeleton = {
+  keypoint_names: [
+    'left_eye',
+    'right_eye',
+    'nose',
+    'left_mouth_corner',
+    'right_mouth_corner',
+  ],
+  limbs: [
+    [0, 1],
+    [0, 2],
+    [1, 2],
+    [2, 3],
+    [2, 4],
+    [3, 4],
+  ],
+  limb_colors: [
+    blue,
+    ...new Array(2).fill(green),
+    ...new Array(2).fill(orange),
+    magenta,
+  ],
+  keypoint_colors: [blue, blue, green, magenta, magenta],
+  flip_idx: [1, 0, 2, 4, 3],
+}
+
+/** the built-in skeleton matching the number of keypoints, if any */
+export function getSkeleton(num_keypoints: number): Skeleton | undefined {
+  for (let skeleton of [cocoSkeleton, handSkeleton, faceSkeleton]) {
+    if (skeleton.keypoint_names.length === num_keypoints) {
+      return skeleton
+    }
+  }
+}
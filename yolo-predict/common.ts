@@ -0,0 +1,62 @@
+import type { InferenceModel } from '@tensorflow/tfjs'
+import { getModelMetadata } from '../tensorflow/common'
+import { BoxResult } from '../yolo-box/common'
+import { ClassifyResult } from '../yolo-classify/common'
+import { PoseResult } from '../yolo-pose/common'
+import { SegmentResult } from '../yolo-segment/common'
+import { ObbResult } from '../yolo-obb/common'
+
+export type YoloTask = PredictResult['task']
+
+/**
+ * Result of `predict()`, discriminated by `task`.
+ */
+export type PredictResult =
+  | {
+      task: 'detect'
+      /** same as the result of `detectBox()` */
+      boxes: BoxResult
+    }
+  | {
+      task: 'pose'
+      /** same as the result of `detectPose()` */
+      poses: PoseResult
+    }
+  | {
+      task: 'segment'
+      /** same as the result of `detectSegment()` */
+      segments: SegmentResult
+    }
+  | {
+      task: 'obb'
+      /** same as the result of `detectObb()` */
+      oriented_boxes: ObbResult
+    }
+  | {
+      task: 'classify'
+      /** same as the result of `classifyImage()` */
+      classes: ClassifyResult
+    }
+
+/** resolve the task from the args, or from the model metadata */
+export function getPredictTask(args: {
+  task?: YoloTask
+  model: InferenceModel
+}): YoloTask {
+  let task = args.task ?? getModelMetadata(args.model).task
+  if (!task) {
+    throw new Error(
+      'unknown task of the model, please specify the task in args or in metadata.yaml',
+    )
+  }
+  switch (task) {
+    case 'detect':
+    case 'pose':
+    case 'segment':
+    case 'obb':
+    case 'classify':
+      return task
+    default:
+      throw new Error(`unsupported task: ${JSON.stringify(task)}`)
+  }
+}
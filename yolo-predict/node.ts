@@ -0,0 +1,66 @@
+import { getPredictTask, PredictResult, YoloTask } from './common'
+import { detectBox, DetectBoxArgs, detectBoxSync } from '../yolo-box/node'
+import { detectPose, DetectPoseArgs, detectPoseSync } from '../yolo-pose/node'
+import {
+  detectSegment,
+  DetectSegmentArgs,
+  detectSegmentSync,
+} from '../yolo-segment/node'
+import {
+  classifyImage,
+  ClassifyArgs,
+  classifyImageSync,
+} from '../yolo-classify/node'
+import { detectObb, DetectObbArgs, detectObbSync } from '../yolo-obb/node'
+export * from './common'
+
+export type PredictArgs = {
+  /**
+   * default: `model.task` from the metadata loaded by `loadYoloModel()`
+   */
+  task?: YoloTask
+} & DetectBoxArgs &
+  DetectPoseArgs &
+  DetectSegmentArgs &
+  DetectObbArgs &
+  ClassifyArgs
+
+/**
+ * Run `detectBox()`, `detectPose()`, `detectSegment()`, `detectObb()` or `classifyImage()` according to the task of the model.
+ *
+ * The task-specific parameters (e.g. `num_classes`, `num_keypoints`) are auto inferred when not specified.
+ */
+export async function predict(args: PredictArgs): Promise<PredictResult> {
+  let task = getPredictTask(args)
+  switch (task) {
+    case 'detect':
+      return { task, boxes: await detectBox(args) }
+    case 'pose':
+      return { task, poses: await detectPose(args) }
+    case 'segment':
+      return { task, segments: await detectSegment(args) }
+    case 'obb':
+      return { task, oriented_boxes: await detectObb(args) }
+    case 'classify':
+      return { task, classes: await classifyImage(args) }
+  }
+}
+
+/**
+ * Sync version of `predict`.
+ */
+export function predictSync(args: PredictArgs): PredictResult {
+  let task = getPredictTask(args)
+  switch (task) {
+    case 'detect':
+      return { task, boxes: detectBoxSync(args) }
+    case 'pose':
+      return { task, poses: detectPoseSync(args) }
+    case 'segment':
+      return { task, segments: detectSegmentSync(args) }
+    case 'obb':
+      return { task, oriented_boxes: detectObbSync(args) }
+    case 'classify':
+      return { task, classes: classifyImageSync(args) }
+  }
+}
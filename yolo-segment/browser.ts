@@ -1,12 +1,32 @@
 import * as tf from '@tensorflow/tfjs'
 import {
-  decodeSegment,
+  decodeSegmentData,
   DecodeSegmentArgs,
-  decodeSegmentSync,
+  decodeSegmentDataSync,
   SegmentResult,
+  mapSegmentResult,
+  cropMaskPadding,
+  resolveSegmentParams,
+  decodeSegmentBoxesData,
+  decodeSegmentBoxesDataSync,
+  assembleMasks,
+  toBinaryMasks,
+  resolveMaskShapes,
+  BinaryMaskResult,
 } from './common'
+import { mapBoxResult } from '../yolo-box/common'
 import { ImageInput } from '../tensorflow/browser'
-import { getModelInputShape, preprocessInput } from '../tensorflow/common'
+import {
+  CoordinateSpace,
+  getCoordinateSpace,
+  getImageSize,
+  getInputTransform,
+  getModelInputShape,
+  ImageSize,
+  InputTransform,
+  preprocessInput,
+  ResizeMode,
+} from '../tensorflow/common'
 export * from './common'
 
 export type DetectSegmentArgs = {
@@ -16,7 +36,30 @@ export type DetectSegmentArgs = {
     width: number
     height: number
   }
-} & Omit<DecodeSegmentArgs, 'output_boxes' | 'output_masks'> &
+  /** how to fit the image into input_shape, default: `'stretch'` */
+  resize_mode?: ResizeMode
+  /**
+   * coordinate space of the returned boxes and masks.
+   *
+   * default: `'source'` when `resize_mode` is `'letterbox'`, otherwise `'input'`
+   */
+  coordinate?: CoordinateSpace
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+  /**
+   * Number of channels in segmentation mask, e.g. `32`
+   *
+   * auto inferred from output shape if not specified
+   */
+  num_channels?: number
+} & Omit<
+  DecodeSegmentArgs,
+  'output_boxes' | 'output_masks' | 'num_classes' | 'num_channels'
+> &
   ImageInput
 
 /**
@@ -28,8 +71,8 @@ export type DetectSegmentArgs = {
  * mask features:
  * - [height, width, channel]: 0 for background, 1 for object
  *
- * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1].
- * The the pixel units are scaled to the input_shape.
+ * The x, y, width, height are in pixel unit, NOT normalized in the range of [0, 1], unless `coordinate` is `'normalized'`.
+ * The the pixel units are scaled to the input_shape, or to the source image when `coordinate` is `'source'`.
  *
  * The confidence are already normalized between 0 to 1.
  */
@@ -39,17 +82,30 @@ export async function detectSegment(
   let { model } = args
 
   let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
 
   let result = tf.tidy(() => {
     let input =
       'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
-    input = preprocessInput(input, input_shape)
-    return model.predict(input, {}) as tf.Tensor[]
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    let result = model.predict(input, {}) as tf.Tensor[]
+    if (coordinate !== 'input') {
+      result[1] = cropMaskPadding(result[1], transform)
+    }
+    return result
   })
 
-  let output_boxes = result[0].array().then(data => {
+  let mask_shape = getImageSize(result[1])
+
+  let output_boxes = result[0].data().then(data => {
     result[0].dispose()
-    return data as number[][][]
+    return data as Float32Array
   })
 
   let output_masks = result[1].array().then(data => {
@@ -57,12 +113,15 @@ export async function detectSegment(
     return data as number[][][][]
   })
 
-  return await decodeSegment({
+  let batches = await decodeSegmentData({
     ...args,
-    input_shape,
+    ...resolveSegmentParams(args, model, result[0].shape, result[1].shape),
+    mask_shape,
+    boxes_shape: result[0].shape,
     output_boxes: await output_boxes,
     output_masks: await output_masks,
   })
+  return mapSegmentResult(batches, transform, coordinate)
 }
 
 /**
@@ -72,23 +131,179 @@ export function detectSegmentSync(args: DetectSegmentArgs): SegmentResult {
   let { model } = args
 
   let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
 
   let output = tf.tidy(() => {
     let input =
       'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
-    input = preprocessInput(input, input_shape)
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
     let result = model.predict(input, {}) as tf.Tensor[]
-    let output_boxes = result[0].arraySync() as number[][][]
+    if (coordinate !== 'input') {
+      result[1] = cropMaskPadding(result[1], transform)
+    }
+    let output_boxes = result[0].dataSync() as Float32Array
     let output_masks = result[1].arraySync() as number[][][][]
     return {
+      ...resolveSegmentParams(args, model, result[0].shape, result[1].shape),
       output_boxes,
+      boxes_shape: result[0].shape,
       output_masks,
+      mask_shape: getImageSize(result[1]),
     }
   })
 
-  return decodeSegmentSync({
+  let batches = decodeSegmentDataSync({
     ...args,
-    input_shape,
     ...output,
   })
+  return mapSegmentResult(batches, transform, coordinate)
+}
+
+export type DetectSegmentMasksArgs = DetectSegmentArgs & {
+  /**
+   * resolution of the image spanned by the returned masks
+   *
+   * default: input_shape for `'input'` coordinate, otherwise the source image size
+   */
+  output_shape?: ImageSize
+  /**
+   * pixels with mask value above this threshold are considered as object
+   *
+   * default: `0.5`
+   */
+  mask_threshold?: number
+}
+
+/**
+ * Same as `detectSegment()`, but the masks are assembled on device with `assembleMasks()`,
+ * so only the binary masks of the selected boxes are downloaded,
+ * instead of the mask channels of the whole image.
+ *
+ * The mask of each box only covers the bounding box area in the resolution of `output_shape`,
+ * the area is given by `mask_rect` in output_shape pixel unit.
+ */
+export async function detectSegmentMasks(
+  args: DetectSegmentMasksArgs,
+): Promise<BinaryMaskResult> {
+  let { model } = args
+
+  let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
+
+  let [boxes_tensor, masks_tensor] = tf.tidy(() => {
+    let input =
+      'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    let result = model.predict(input, {}) as tf.Tensor[]
+    if (coordinate !== 'input') {
+      result[1] = cropMaskPadding(result[1], transform)
+    }
+    return result
+  })
+
+  try {
+    let output_boxes = (await boxes_tensor.data()) as Float32Array
+    boxes_tensor.dispose()
+
+    let batches = await decodeSegmentBoxesData({
+      ...args,
+      ...resolveSegmentParams(
+        args,
+        model,
+        boxes_tensor.shape,
+        masks_tensor.shape,
+      ),
+      boxes_shape: boxes_tensor.shape,
+      output_boxes,
+    })
+    mapBoxResult(batches, transform, coordinate)
+
+    let shapes = resolveMaskShapes(transform, coordinate)
+    let result: BinaryMaskResult = []
+    for (let batch = 0; batch < batches.length; batch++) {
+      let { rects, masks } = tf.tidy(() =>
+        assembleMasks({
+          tf,
+          masks: masks_tensor.slice(batch, 1).squeeze([0]),
+          bounding_boxes: batches[batch],
+          image_shape: shapes.image_shape,
+          output_shape: args.output_shape || shapes.output_shape,
+          threshold: args.mask_threshold,
+        }),
+      )
+      let data = (await masks.data()) as Uint8Array
+      masks.dispose()
+      result.push(toBinaryMasks(batches[batch], rects, data))
+    }
+    return result
+  } finally {
+    tf.dispose([boxes_tensor, masks_tensor])
+  }
+}
+
+/**
+ * Sync version of `detectSegmentMasks`.
+ */
+export function detectSegmentMasksSync(
+  args: DetectSegmentMasksArgs,
+): BinaryMaskResult {
+  let { model } = args
+
+  let input_shape = args.input_shape || getModelInputShape(model)
+  let coordinate = getCoordinateSpace(args)
+  let transform!: InputTransform
+
+  return tf.tidy(() => {
+    let input =
+      'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
+    transform = getInputTransform(
+      getImageSize(input),
+      input_shape,
+      args.resize_mode,
+    )
+    input = preprocessInput(input, input_shape, args.resize_mode)
+    let [boxes_tensor, masks_tensor] = model.predict(input, {}) as tf.Tensor[]
+    if (coordinate !== 'input') {
+      masks_tensor = cropMaskPadding(masks_tensor, transform)
+    }
+
+    let batches = decodeSegmentBoxesDataSync({
+      ...args,
+      ...resolveSegmentParams(
+        args,
+        model,
+        boxes_tensor.shape,
+        masks_tensor.shape,
+      ),
+      boxes_shape: boxes_tensor.shape,
+      output_boxes: boxes_tensor.dataSync() as Float32Array,
+    })
+    mapBoxResult(batches, transform, coordinate)
+
+    let shapes = resolveMaskShapes(transform, coordinate)
+    return batches.map((bounding_boxes, batch) => {
+      let { rects, masks } = assembleMasks({
+        tf,
+        masks: masks_tensor.slice(batch, 1).squeeze([0]),
+        bounding_boxes,
+        image_shape: shapes.image_shape,
+        output_shape: args.output_shape || shapes.output_shape,
+        threshold: args.mask_threshold,
+      })
+      let data = masks.dataSync() as Uint8Array
+      return toBinaryMasks(bounding_boxes, rects, data)
+    })
+  })
 }
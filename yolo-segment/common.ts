@@ -1,5 +1,30 @@
 import type * as tf_type from '@tensorflow/tfjs'
-import { BoundingBox } from '../yolo-box/common'
+import {
+  BoundingBox,
+  ClassFilterArgs,
+  decodeEndToEndBox,
+  filterBoxIndices,
+  NmsMode,
+  prepareBoxData,
+  readBoxData,
+  resolveScoreThreshold,
+  SelectedBoxes,
+  suppressBoxes,
+  suppressBoxesSync,
+  Suppression,
+  updateSelectedBoxes,
+  selectTopBoxes,
+} from '../yolo-box/common'
+import {
+  CoordinateSpace,
+  getArrayShape,
+  getModelMetadata,
+  ImageSize,
+  InputTransform,
+  isEndToEndOutput,
+  isEndToEndShape,
+  mapBox,
+} from '../tensorflow/common'
 
 /** [height, width, num_channels] -> 0 for background, 1 for object */
 export type Mask = number[][]
@@ -8,6 +33,14 @@ export type BoundingBoxWithMaskCoefficients = BoundingBox & {
   mask_coefficients: number[]
 }
 
+export type BoundingBoxWithMask = BoundingBox & {
+  /**
+   * mask of the bounding box area, in the resolution of the mask channels,
+   * value in the range of [0, 1]
+   */
+  mask: Mask
+}
+
 /**
  * output shape: [batch, box]
  *
@@ -15,11 +48,16 @@ export type BoundingBoxWithMaskCoefficients = BoundingBox & {
  * */
 export type SegmentResult = {
   bounding_boxes: BoundingBoxWithMaskCoefficients[]
-  /** e.g. [mask_height, mask_width, 32] for 32 channels of masks */
+  /**
+   * e.g. [mask_height, mask_width, 32] for 32 channels of masks
+   *
+   * When the masks are returned by `detectSegment()` with `'source'` or `'normalized'` coordinate,
+   * the letterbox padding is cropped, so the masks span the whole source image.
+   */
   masks: Mask[]
 }[]
 
-export type ImageSize = { width: number; height: number }
+export type { ImageSize }
 
 export type DecodeSegmentArgs = {
   /**
@@ -36,10 +74,17 @@ export type DecodeSegmentArgs = {
    */
   num_channels?: number
 
-  /** batched predict result, e.g. 1x116x8400 */
+  /** batched predict result, e.g. 1x116x8400, or 1x300x38 for end-to-end output */
   output_boxes: number[][][]
   /** batched predict result, e.g. 1x160x160x32 */
   output_masks: number[][][][]
+  /**
+   * whether the output_boxes is in end-to-end layout (x1, y1, x2, y2, score, class, mask coefficients),
+   * e.g. exported with `nms=True` or YOLOv10 style models.
+   *
+   * default: auto detected from the output shape
+   */
+  end_to_end?: boolean
   /**
    * Number of boxes to return using non-max suppression.
    * If not provided, all boxes will be returned
@@ -59,7 +104,45 @@ export type DecodeSegmentArgs = {
    * default: `-Infinity`
    */
   scoreThreshold?: number
-} & (
+  /**
+   * how non-max suppression treats overlapping boxes of different classes:
+   * - `'agnostic'`: suppress overlapping boxes regardless of class
+   * - `'per-class'`: only suppress overlapping boxes of the same class, same as Ultralytics' default
+   *
+   * default: `'agnostic'`
+   */
+  nms?: NmsMode
+  /**
+   * whether `maxOutputSize` applies to each class or to all classes in total.
+   * Only effective when `nms` is `'per-class'`.
+   *
+   * default: `false`
+   */
+  maxOutputSizePerClass?: boolean
+  /**
+   * how to suppress overlapping boxes:
+   * - `'nms'`: hard non-max suppression
+   * - `'soft-nms'`: decay the scores of overlapping boxes with Gaussian penalty, see `softNmsSigma`
+   * - `'diou-nms'`: non-max suppression with Distance-IoU, keeps overlapping boxes with distant centers
+   * - `'wbf'`: Weighted Boxes Fusion, fuse overlapping boxes by averaging the coordinates weighted by scores
+   * - custom function
+   *
+   * default: `'nms'`
+   */
+  suppression?: Suppression
+  /**
+   * sigma of the Gaussian penalty, only effective when `suppression` is `'soft-nms'`.
+   *
+   * Boxes overlapping more than `iouThreshold` are still removed,
+   * set `iouThreshold` to `1` to only decay the scores.
+   *
+   * default: `0.5`
+   */
+  softNmsSigma?: number
+} & ClassFilterArgs &
+  MaskShapeArgs
+
+type MaskShapeArgs =
   | {
       /** default: `{ width: 640, height: 640 }` */
       input_shape: ImageSize
@@ -68,9 +151,16 @@ export type DecodeSegmentArgs = {
       /** default: input_shape / 4 */
       mask_shape: ImageSize
     }
-)
 
-function getMaskShape(args: DecodeSegmentArgs): ImageSize {
+export type DecodeSegmentDataArgs = Omit<DecodeSegmentArgs, 'output_boxes'> &
+  MaskShapeArgs & {
+    /** flat batched predict result from `tensor.data()`, e.g. 1x116x8400 */
+    output_boxes: Float32Array
+    /** e.g. [1, 116, 8400], or [1, 300, 38] for end-to-end output */
+    boxes_shape: number[]
+  }
+
+function getMaskShape(args: MaskShapeArgs): ImageSize {
   if ('mask_shape' in args) return args.mask_shape
   if ('input_shape' in args) {
     return {
@@ -81,6 +171,43 @@ function getMaskShape(args: DecodeSegmentArgs): ImageSize {
   throw new Error('missing mask_shape or input_shape')
 }
 
+/**
+ * resolve the decode parameters from the args, model metadata, or output shape (in this order of priority)
+ */
+export function resolveSegmentParams(
+  args: {
+    num_classes?: number
+    num_channels?: number
+    end_to_end?: boolean
+    class_names?: string[]
+  },
+  model: tf_type.InferenceModel,
+  /** e.g. [1, 116, 8400], or [1, 300, 38] for end-to-end output */
+  boxes_shape: number[],
+  /** e.g. [1, 160, 160, 32] */
+  masks_shape: number[],
+): {
+  num_classes: number
+  num_channels: number
+  end_to_end: boolean
+  class_names?: string[]
+} {
+  let num_channels = args.num_channels ?? masks_shape[3]
+  let end_to_end = isEndToEndOutput(args, model, boxes_shape, num_channels)
+  let class_names = args.class_names ?? getModelMetadata(model).class_names
+  let num_classes =
+    args.num_classes ??
+    class_names?.length ??
+    // end-to-end output only contains the class index
+    (end_to_end ? 0 : boxes_shape[1] - 4 - num_channels)
+  if (!(num_classes > 0)) {
+    throw new Error(
+      `cannot infer num_classes from output shape [${boxes_shape}] and [${masks_shape}], please specify num_classes`,
+    )
+  }
+  return { num_classes, num_channels, end_to_end, class_names }
+}
+
 /**
  * tensorflow output: boxes [batch, features, channel] and masks [batch, height, width, channel]
  *
@@ -101,7 +228,13 @@ function getMaskShape(args: DecodeSegmentArgs): ImageSize {
 export async function decodeSegment(
   args: DecodeSegmentArgs,
 ): Promise<SegmentResult> {
-  let { tf, num_classes, maxOutputSize, iouThreshold, scoreThreshold } = args
+  if (
+    args.end_to_end ??
+    isEndToEndShape(getArrayShape(args.output_boxes), args.num_channels ?? 32)
+  ) {
+    return decodeSegmentEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
   let num_channels = args.num_channels ?? 32
 
   let { width: mask_width, height: mask_height } = getMaskShape(args)
@@ -178,18 +311,18 @@ export async function decodeSegment(
     }
 
     let box_indices: number[]
+    let selected: SelectedBoxes | null = null
     if (maxOutputSize) {
-      let box_indices_tensor = await tf.image.nonMaxSuppressionAsync(
+      selected = await suppressBoxes({
+        ...args,
         boxes,
-        cls_scores,
+        scores: cls_scores,
+        cls_indices,
         maxOutputSize,
-        iouThreshold,
-        scoreThreshold,
-      )
-      box_indices = await box_indices_tensor.array()
-      box_indices_tensor.dispose()
+      })
+      box_indices = selected.indices
     } else {
-      box_indices = Array.from({ length: num_boxes }, (_, i) => i)
+      box_indices = filterBoxIndices(args, cls_scores, cls_indices)
     }
 
     let bounding_boxes: BoundingBoxWithMaskCoefficients[] = []
@@ -219,6 +352,9 @@ export async function decodeSegment(
         mask_coefficients,
       })
     }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
     result.push({
       bounding_boxes,
       masks: batch_masks,
@@ -232,7 +368,13 @@ export async function decodeSegment(
  * Sync version of `decodeSegment`.
  */
 export function decodeSegmentSync(args: DecodeSegmentArgs): SegmentResult {
-  let { tf, num_classes, maxOutputSize, iouThreshold, scoreThreshold } = args
+  if (
+    args.end_to_end ??
+    isEndToEndShape(getArrayShape(args.output_boxes), args.num_channels ?? 32)
+  ) {
+    return decodeSegmentEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
   let num_channels = args.num_channels ?? 32
 
   let { width: mask_width, height: mask_height } = getMaskShape(args)
@@ -309,19 +451,18 @@ export function decodeSegmentSync(args: DecodeSegmentArgs): SegmentResult {
     }
 
     let box_indices: number[]
+    let selected: SelectedBoxes | null = null
     if (maxOutputSize) {
-      box_indices = tf.tidy(() => {
-        let box_indices_tensor = tf.image.nonMaxSuppression(
-          boxes,
-          cls_scores,
-          maxOutputSize,
-          iouThreshold,
-          scoreThreshold,
-        )
-        return box_indices_tensor.arraySync()
+      selected = suppressBoxesSync({
+        ...args,
+        boxes,
+        scores: cls_scores,
+        cls_indices,
+        maxOutputSize,
       })
+      box_indices = selected.indices
     } else {
-      box_indices = Array.from({ length: num_boxes }, (_, i) => i)
+      box_indices = filterBoxIndices(args, cls_scores, cls_indices)
     }
 
     let bounding_boxes: BoundingBoxWithMaskCoefficients[] = []
@@ -351,6 +492,9 @@ export function decodeSegmentSync(args: DecodeSegmentArgs): SegmentResult {
         mask_coefficients,
       })
     }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
     result.push({
       bounding_boxes,
       masks: batch_masks,
@@ -360,6 +504,329 @@ export function decodeSegmentSync(args: DecodeSegmentArgs): SegmentResult {
   return result
 }
 
+/**
+ * tensorflow output: boxes [batch, instances, features] and masks [batch, height, width, channel]
+ *
+ * box features:
+ * - 4: x1, y1, x2, y2
+ * - 1: confidence
+ * - 1: class index
+ * - 32: channel coefficients
+ *
+ * e.g. 1x300x38 for 1 batch of 300 instances
+ *
+ * The boxes are already suppressed by the model, so non-max suppression is skipped.
+ * Only the confidence of the detected class is available, the others in `all_confidences` are `0`.
+ */
+function decodeSegmentEndToEnd(args: DecodeSegmentArgs): SegmentResult {
+  let { num_classes, maxOutputSize } = args
+  let getScoreThreshold = resolveScoreThreshold(args)
+  let num_channels = args.num_channels ?? 32
+
+  let { width: mask_width, height: mask_height } = getMaskShape(args)
+
+  let boxes_length = 6 + num_channels
+
+  // e.g. 1x300x38
+  let batches_boxes = args.output_boxes
+
+  // e.g. 1x160x160x32
+  let batches_masks = args.output_masks
+  if (batches_masks[0].length !== mask_height) {
+    throw new Error(`masks_data[batch].length must be ${mask_height}`)
+  }
+  if (batches_masks[0][0].length !== mask_width) {
+    throw new Error(`masks_data[batch][y].length must be ${mask_width}`)
+  }
+  if (batches_masks[0][0][0].length !== num_channels) {
+    throw new Error(`masks_data[batch][y][x].length must be ${num_channels}`)
+  }
+
+  if (batches_boxes.length !== batches_masks.length) {
+    throw new Error('boxes_data and masks_data must have the same length')
+  }
+
+  let result: SegmentResult = []
+  let batch_size = batches_boxes.length
+  for (let batch = 0; batch < batch_size; batch++) {
+    // 300x38
+    let batch_boxes = batches_boxes[batch]
+
+    // 160x160x32
+    let batch_masks = batches_masks[batch]
+
+    let bounding_boxes: BoundingBoxWithMaskCoefficients[] = []
+    for (let row of batch_boxes) {
+      if (row.length !== boxes_length) {
+        throw new Error(`boxes_data[batch][box].length must be ${boxes_length}`)
+      }
+      let confidence = row[4]
+      if (!(confidence > getScoreThreshold(Math.round(row[5])))) {
+        continue
+      }
+      bounding_boxes.push({
+        ...decodeEndToEndBox(row, num_classes),
+        mask_coefficients: row.slice(6),
+      })
+    }
+    result.push({
+      bounding_boxes: selectTopBoxes(bounding_boxes, maxOutputSize),
+      masks: batch_masks,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Same as `decodeSegment`, but reads the boxes from the flat output of `tensor.data()` with explicit strides,
+ * to avoid allocating nested arrays of `tensor.array()`.
+ *
+ * The masks are still nested arrays, as returned in the `SegmentResult`.
+ */
+export async function decodeSegmentData(
+  args: DecodeSegmentDataArgs,
+): Promise<SegmentResult> {
+  let batches = await decodeSegmentBoxesData(args)
+  checkMasksData(args, batches.length, args.num_channels ?? 32)
+  return batches.map((bounding_boxes, batch) => ({
+    bounding_boxes,
+    masks: args.output_masks[batch],
+  }))
+}
+
+/**
+ * Sync version of `decodeSegmentData`.
+ */
+export function decodeSegmentDataSync(
+  args: DecodeSegmentDataArgs,
+): SegmentResult {
+  let batches = decodeSegmentBoxesDataSync(args)
+  checkMasksData(args, batches.length, args.num_channels ?? 32)
+  return batches.map((bounding_boxes, batch) => ({
+    bounding_boxes,
+    masks: args.output_masks[batch],
+  }))
+}
+
+export type DecodeSegmentBoxesDataArgs = Omit<
+  DecodeSegmentDataArgs,
+  'output_masks'
+>
+
+/**
+ * Same as `decodeSegmentData`, but only decodes the boxes with mask coefficients,
+ * so the masks can be kept on device, e.g. for `assembleMasks()`.
+ *
+ * output shape: [batch, box]
+ */
+export async function decodeSegmentBoxesData(
+  args: DecodeSegmentBoxesDataArgs,
+): Promise<BoundingBoxWithMaskCoefficients[][]> {
+  if (
+    args.end_to_end ??
+    isEndToEndShape(args.boxes_shape, args.num_channels ?? 32)
+  ) {
+    return decodeSegmentBoxesDataEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
+  let num_channels = args.num_channels ?? 32
+  let [batch_size, num_features, num_boxes] = args.boxes_shape
+
+  let boxes_length = 4 + num_classes + num_channels
+  if (num_features !== boxes_length) {
+    throw new Error(`boxes_shape[1] must be ${boxes_length}`)
+  }
+
+  let result: BoundingBoxWithMaskCoefficients[][] = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let data = args.output_boxes.subarray(
+      batch * num_features * num_boxes,
+      (batch + 1) * num_features * num_boxes,
+    )
+    let { boxes, scores, cls_indices } = prepareBoxData(
+      data,
+      num_boxes,
+      num_classes,
+    )
+
+    let box_indices: ArrayLike<number>
+    let selected: SelectedBoxes | null = null
+    if (maxOutputSize) {
+      selected = await suppressBoxes({
+        ...args,
+        boxes,
+        scores,
+        cls_indices,
+        maxOutputSize,
+      })
+      box_indices = selected.indices
+    } else {
+      box_indices = filterBoxIndices(args, scores, cls_indices)
+    }
+
+    let bounding_boxes: BoundingBoxWithMaskCoefficients[] = []
+    for (let i = 0; i < box_indices.length; i++) {
+      let box_index = box_indices[i]
+      bounding_boxes.push({
+        ...readBoxData(data, num_boxes, num_classes, box_index, cls_indices),
+        mask_coefficients: readMaskCoefficientsData(
+          data,
+          num_boxes,
+          4 + num_classes,
+          num_channels,
+          box_index,
+        ),
+      })
+    }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+/**
+ * Sync version of `decodeSegmentBoxesData`.
+ */
+export function decodeSegmentBoxesDataSync(
+  args: DecodeSegmentBoxesDataArgs,
+): BoundingBoxWithMaskCoefficients[][] {
+  if (
+    args.end_to_end ??
+    isEndToEndShape(args.boxes_shape, args.num_channels ?? 32)
+  ) {
+    return decodeSegmentBoxesDataEndToEnd(args)
+  }
+  let { num_classes, maxOutputSize } = args
+  let num_channels = args.num_channels ?? 32
+  let [batch_size, num_features, num_boxes] = args.boxes_shape
+
+  let boxes_length = 4 + num_classes + num_channels
+  if (num_features !== boxes_length) {
+    throw new Error(`boxes_shape[1] must be ${boxes_length}`)
+  }
+
+  let result: BoundingBoxWithMaskCoefficients[][] = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let data = args.output_boxes.subarray(
+      batch * num_features * num_boxes,
+      (batch + 1) * num_features * num_boxes,
+    )
+    let { boxes, scores, cls_indices } = prepareBoxData(
+      data,
+      num_boxes,
+      num_classes,
+    )
+
+    let box_indices: ArrayLike<number>
+    let selected: SelectedBoxes | null = null
+    if (maxOutputSize) {
+      selected = suppressBoxesSync({
+        ...args,
+        boxes,
+        scores,
+        cls_indices,
+        maxOutputSize,
+      })
+      box_indices = selected.indices
+    } else {
+      box_indices = filterBoxIndices(args, scores, cls_indices)
+    }
+
+    let bounding_boxes: BoundingBoxWithMaskCoefficients[] = []
+    for (let i = 0; i < box_indices.length; i++) {
+      let box_index = box_indices[i]
+      bounding_boxes.push({
+        ...readBoxData(data, num_boxes, num_classes, box_index, cls_indices),
+        mask_coefficients: readMaskCoefficientsData(
+          data,
+          num_boxes,
+          4 + num_classes,
+          num_channels,
+          box_index,
+        ),
+      })
+    }
+    if (selected) {
+      updateSelectedBoxes(bounding_boxes, selected)
+    }
+    result.push(bounding_boxes)
+  }
+  return result
+}
+
+function decodeSegmentBoxesDataEndToEnd(
+  args: DecodeSegmentBoxesDataArgs,
+): BoundingBoxWithMaskCoefficients[][] {
+  let { num_classes, maxOutputSize } = args
+  let getScoreThreshold = resolveScoreThreshold(args)
+  let num_channels = args.num_channels ?? 32
+  let [batch_size, num_rows, num_features] = args.boxes_shape
+
+  let boxes_length = 6 + num_channels
+  if (num_features !== boxes_length) {
+    throw new Error(`boxes_shape[2] must be ${boxes_length}`)
+  }
+
+  let result: BoundingBoxWithMaskCoefficients[][] = []
+  for (let batch = 0; batch < batch_size; batch++) {
+    let bounding_boxes: BoundingBoxWithMaskCoefficients[] = []
+    for (let i = 0; i < num_rows; i++) {
+      let offset = (batch * num_rows + i) * num_features
+      let row = args.output_boxes.subarray(offset, offset + num_features)
+      if (!(row[4] > getScoreThreshold(Math.round(row[5])))) {
+        continue
+      }
+      bounding_boxes.push({
+        ...decodeEndToEndBox(row, num_classes),
+        mask_coefficients: Array.from(row.subarray(6)),
+      })
+    }
+    result.push(selectTopBoxes(bounding_boxes, maxOutputSize))
+  }
+  return result
+}
+
+function checkMasksData(
+  args: DecodeSegmentDataArgs,
+  batch_size: number,
+  num_channels: number,
+) {
+  let { width: mask_width, height: mask_height } = getMaskShape(args)
+
+  // e.g. 1x160x160x32
+  let batches_masks = args.output_masks
+  if (batches_masks.length !== batch_size) {
+    throw new Error('boxes_data and masks_data must have the same length')
+  }
+  if (batches_masks[0].length !== mask_height) {
+    throw new Error(`masks_data[batch].length must be ${mask_height}`)
+  }
+  if (batches_masks[0][0].length !== mask_width) {
+    throw new Error(`masks_data[batch][y].length must be ${mask_width}`)
+  }
+  if (batches_masks[0][0][0].length !== num_channels) {
+    throw new Error(`masks_data[batch][y][x].length must be ${num_channels}`)
+  }
+}
+
+// the feature `f` of instance `i` is at `data[f * num_boxes + i]`
+function readMaskCoefficientsData(
+  data: Float32Array,
+  num_boxes: number,
+  offset: number,
+  num_channels: number,
+  box_index: number,
+): number[] {
+  let mask_coefficients: number[] = new Array(num_channels)
+  for (let i = 0; i < num_channels; i++) {
+    mask_coefficients[i] = data[(offset + i) * num_boxes + box_index]
+  }
+  return mask_coefficients
+}
+
 /**
  * @description final mask = mask coefficients * mask channels
  */
@@ -395,10 +862,427 @@ export function combineMask(
   return final_mask
 }
 
+/**
+ * @description combine the mask within the bounding box area only.
+ *
+ * The bounding box should be in input_shape pixel unit.
+ * The area is rounded to the pixels of the masks.
+ */
+export function cropBoxMask(
+  bounding_box: BoundingBoxWithMaskCoefficients,
+  /** e.g. [mask_height, mask_width, 32] for 32 channels of masks */
+  masks: Mask[],
+  input_shape: ImageSize,
+): Mask {
+  let mask_height = masks.length
+  let mask_width = masks[0].length
+  let ratio_x = mask_width / input_shape.width
+  let ratio_y = mask_height / input_shape.height
+  let { x, y, width, height } = bounding_box
+  let left = clamp(Math.round((x - width / 2) * ratio_x), 0, mask_width)
+  let right = clamp(Math.round((x + width / 2) * ratio_x), left, mask_width)
+  let top = clamp(Math.round((y - height / 2) * ratio_y), 0, mask_height)
+  let bottom = clamp(Math.round((y + height / 2) * ratio_y), top, mask_height)
+  if (left === right || top === bottom) {
+    return []
+  }
+  let box_masks = masks.slice(top, bottom).map(row => row.slice(left, right))
+  return combineMask(bounding_box, box_masks)
+}
+
+export type ProcessMaskArgs = {
+  /** e.g. [mask_height, mask_width, 32] for 32 channels of masks */
+  masks: Mask[]
+  /**
+   * size of the image spanned by the masks, in the same unit as the bounding box, e.g.
+   * - input_shape for `'input'` coordinate
+   * - source image size for `'source'` coordinate
+   * - `{ width: 1, height: 1 }` for `'normalized'` coordinate, with `output_shape` specified
+   */
+  image_shape: ImageSize
+  /**
+   * resolution of the returned mask
+   *
+   * default: `image_shape`
+   */
+  output_shape?: ImageSize
+  /**
+   * pixels with mask value above this threshold are considered as object
+   *
+   * default: `0.5`
+   */
+  threshold?: number
+}
+
+/**
+ * @description combine the mask of the bounding box, same as `process_mask()` of Ultralytics:
+ * - crop to the bounding box area
+ * - upsample to the output_shape with bilinear interpolation
+ * - binarize with the threshold
+ *
+ * Only the mask channels around the bounding box are combined,
+ * so it is cheaper than `combineMask()` for small objects.
+ *
+ * returns the mask in output_shape, `1` for object pixels inside the bounding box, `0` otherwise.
+ */
+export function processMask(
+  bounding_box: BoundingBoxWithMaskCoefficients,
+  args: ProcessMaskArgs,
+): Mask {
+  let { masks, image_shape } = args
+  let output_shape = args.output_shape || image_shape
+  let threshold = args.threshold ?? 0.5
+
+  let output_width = Math.round(output_shape.width)
+  let output_height = Math.round(output_shape.height)
+  let result: Mask = new Array(output_height)
+  for (let h = 0; h < output_height; h++) {
+    result[h] = new Array(output_width).fill(0)
+  }
+
+  // the bounding box in output pixel unit
+  let scale_x = output_width / image_shape.width
+  let scale_y = output_height / image_shape.height
+  let { x, y, width, height } = bounding_box
+  let left = clamp(Math.round((x - width / 2) * scale_x), 0, output_width)
+  let right = clamp(Math.round((x + width / 2) * scale_x), left, output_width)
+  let top = clamp(Math.round((y - height / 2) * scale_y), 0, output_height)
+  let bottom = clamp(Math.round((y + height / 2) * scale_y), top, output_height)
+  if (left === right || top === bottom) {
+    return result
+  }
+
+  // the mask pixels to be interpolated, aligned to pixel centers
+  let mask_height = masks.length
+  let mask_width = masks[0].length
+  let ratio_x = mask_width / output_width
+  let ratio_y = mask_height / output_height
+  let toMaskX = (w: number) =>
+    clamp((w + 0.5) * ratio_x - 0.5, 0, mask_width - 1)
+  let toMaskY = (h: number) =>
+    clamp((h + 0.5) * ratio_y - 0.5, 0, mask_height - 1)
+  let grid_left = Math.floor(toMaskX(left))
+  let grid_right = Math.min(Math.floor(toMaskX(right - 1)) + 1, mask_width - 1)
+  let grid_top = Math.floor(toMaskY(top))
+  let grid_bottom = Math.min(
+    Math.floor(toMaskY(bottom - 1)) + 1,
+    mask_height - 1,
+  )
+  let grid = combineMask(
+    bounding_box,
+    masks
+      .slice(grid_top, grid_bottom + 1)
+      .map(row => row.slice(grid_left, grid_right + 1)),
+  )
+  let grid_width = grid_right - grid_left + 1
+  let grid_height = grid_bottom - grid_top + 1
+
+  for (let h = top; h < bottom; h++) {
+    let my = toMaskY(h) - grid_top
+    let y0 = Math.floor(my)
+    let y1 = Math.min(y0 + 1, grid_height - 1)
+    let fy = my - y0
+    for (let w = left; w < right; w++) {
+      let mx = toMaskX(w) - grid_left
+      let x0 = Math.floor(mx)
+      let x1 = Math.min(x0 + 1, grid_width - 1)
+      let fx = mx - x0
+      let value =
+        (grid[y0][x0] * (1 - fx) + grid[y0][x1] * fx) * (1 - fy) +
+        (grid[y1][x0] * (1 - fx) + grid[y1][x1] * fx) * fy
+      result[h][w] = value > threshold ? 1 : 0
+    }
+  }
+  return result
+}
+
+/** compact binary mask, 1 for object, 0 for background */
+export type BinaryMask = {
+  width: number
+  height: number
+  /** row-major pixels, the pixel (x, y) is at `data[y * width + x]` */
+  data: Uint8Array
+}
+
+export type BoundingBoxWithBinaryMask = BoundingBox & {
+  /** mask of the bounding box area only, in the resolution of `output_shape` */
+  mask: BinaryMask
+  /**
+   * area of the image covered by `mask`, in output_shape pixel unit,
+   * `right` and `bottom` are exclusive
+   */
+  mask_rect: Rect
+}
+
+/**
+ * output shape: [batch, box]
+ *
+ * Array of batches, each containing array of detected bounding boxes with binary masks
+ */
+export type BinaryMaskResult = BoundingBoxWithBinaryMask[][]
+
+export type AssembleMasksArgs = {
+  /**
+   * tensorflow runtime:
+   * - browser: `import * as tf from '@tensorflow/tfjs'`
+   * - nodejs: `import * as tf from '@tensorflow/tfjs-node'`
+   */
+  tf: typeof tf_type
+  /** mask channels of one image, e.g. [160, 160, 32] */
+  masks: tf_type.Tensor
+  bounding_boxes: BoundingBoxWithMaskCoefficients[]
+  /** same as `image_shape` of `processMask()` */
+  image_shape: ImageSize
+  /**
+   * resolution of the image spanned by the returned masks
+   *
+   * default: `image_shape`
+   */
+  output_shape?: ImageSize
+  /**
+   * pixels with mask value above this threshold are considered as object
+   *
+   * default: `0.5`
+   */
+  threshold?: number
+}
+
+/**
+ * Same as `processMask()` for all bounding boxes at once, computed on device:
+ * `sigmoid(mask_coefficients @ masks)` as one matrix multiplication,
+ * then each mask is cropped to its bounding box, upsampled with bilinear interpolation and binarized.
+ *
+ * Only the area of the bounding boxes is upsampled,
+ * so the size of the result does not grow with the whole `output_shape`.
+ *
+ * returns:
+ * - `rects`: area of each mask in output_shape pixel unit, `right` and `bottom` are exclusive
+ * - `masks`: flat masks of all boxes concatenated in `'bool'` dtype, each in row-major order of its rect
+ *
+ * Should be called within `tf.tidy()`.
+ */
+export function assembleMasks(args: AssembleMasksArgs): {
+  rects: Rect[]
+  masks: tf_type.Tensor1D
+} {
+  let { tf, masks, bounding_boxes, image_shape } = args
+  let output_shape = args.output_shape || image_shape
+  let threshold = args.threshold ?? 0.5
+
+  let output_width = Math.round(output_shape.width)
+  let output_height = Math.round(output_shape.height)
+
+  // the bounding boxes in output pixel unit, same rounding as `processMask()`
+  let scale_x = output_width / image_shape.width
+  let scale_y = output_height / image_shape.height
+  let rects = bounding_boxes.map(({ x, y, width, height }): Rect => {
+    let left = clamp(Math.round((x - width / 2) * scale_x), 0, output_width)
+    let top = clamp(Math.round((y - height / 2) * scale_y), 0, output_height)
+    let right = clamp(Math.round((x + width / 2) * scale_x), left, output_width)
+    let bottom = clamp(
+      Math.round((y + height / 2) * scale_y),
+      top,
+      output_height,
+    )
+    return { left, top, right, bottom }
+  })
+
+  let num_boxes = bounding_boxes.length
+  if (
+    rects.every(rect => rect.left === rect.right || rect.top === rect.bottom)
+  ) {
+    return { rects, masks: tf.zeros([0], 'bool') }
+  }
+
+  let [mask_height, mask_width, num_channels] = masks.shape
+  for (let { mask_coefficients } of bounding_boxes) {
+    if (mask_coefficients.length !== num_channels) {
+      throw new Error(
+        `expect ${num_channels} mask coefficients, but got ${mask_coefficients.length}`,
+      )
+    }
+  }
+
+  // [num_boxes, num_channels] x [num_channels, mask_height * mask_width]
+  let combined = tf.sigmoid(
+    tf.matMul(
+      tf.tensor2d(bounding_boxes.map(box => box.mask_coefficients)),
+      masks.reshape([mask_height * mask_width, num_channels]),
+      false,
+      true,
+    ),
+  )
+  // repeat the edge pixels, so sampling outside the mask is clamped like `processMask()`
+  let padded = tf.mirrorPad(
+    combined.reshape([num_boxes, mask_height, mask_width, 1]),
+    [
+      [0, 0],
+      [1, 1],
+      [1, 1],
+      [0, 0],
+    ],
+    'symmetric',
+  ) as tf_type.Tensor4D
+
+  // the output pixel (w, h) samples the mask at ((w + 0.5) * ratio - 0.5), aligned to pixel centers
+  let ratio_x = mask_width / output_width
+  let ratio_y = mask_height / output_height
+  let crops: tf_type.Tensor1D[] = []
+  rects.forEach(({ left, top, right, bottom }, i) => {
+    let crop_width = right - left
+    let crop_height = bottom - top
+    if (crop_width === 0 || crop_height === 0) return
+    // in the normalized coordinate of the padded mask, shifted by the padding pixel
+    let x1 = ((left + 0.5) * ratio_x + 0.5) / (mask_width + 1)
+    let x2 = x1 + (ratio_x * (crop_width - 1)) / (mask_width + 1)
+    let y1 = ((top + 0.5) * ratio_y + 0.5) / (mask_height + 1)
+    let y2 = y1 + (ratio_y * (crop_height - 1)) / (mask_height + 1)
+    let crop = tf.image.cropAndResize(
+      padded,
+      [[y1, x1, y2, x2]],
+      [i],
+      [crop_height, crop_width],
+    )
+    crops.push(crop.greater(threshold).reshape([-1]))
+  })
+  return { rects, masks: tf.concat(crops) }
+}
+
+/**
+ * attach the binary masks from `assembleMasks()` to the bounding boxes.
+ *
+ * The masks share the same buffer of `data`.
+ */
+export function toBinaryMasks<T extends BoundingBox>(
+  bounding_boxes: T[],
+  /** `rects` of `assembleMasks()` */
+  rects: Rect[],
+  /** from `tensor.data()` of `masks` of `assembleMasks()` */
+  data: Uint8Array,
+): (T & { mask: BinaryMask; mask_rect: Rect })[] {
+  let offset = 0
+  return bounding_boxes.map((box, i) => {
+    let rect = rects[i]
+    let width = rect.right - rect.left
+    let height = rect.bottom - rect.top
+    let size = width * height
+    let mask = { width, height, data: data.subarray(offset, offset + size) }
+    offset += size
+    return { ...box, mask, mask_rect: rect }
+  })
+}
+
+/**
+ * convert the mask, e.g. from `combineMask()` or `processMask()`, to compact binary mask.
+ *
+ * The binary mask is returned as is.
+ */
+export function binarizeMask(
+  mask: Mask | BinaryMask,
+  /** pixels with mask value above this threshold are considered as object, default: `0.5` */
+  threshold: number = 0.5,
+): BinaryMask {
+  if (!Array.isArray(mask)) {
+    return mask
+  }
+  let height = mask.length
+  let width = height > 0 ? mask[0].length : 0
+  let data = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = mask[y][x] > threshold ? 1 : 0
+    }
+  }
+  return { width, height, data }
+}
+
+/**
+ * resolve the `image_shape` and default `output_shape` of `assembleMasks()`,
+ * for the masks and boxes returned in the given coordinate space,
+ * i.e. the letterbox padding is cropped from the masks unless in `'input'` coordinate.
+ */
+export function resolveMaskShapes(
+  transform: InputTransform,
+  coordinate: CoordinateSpace,
+): { image_shape: ImageSize; output_shape: ImageSize } {
+  switch (coordinate) {
+    case 'input':
+      return {
+        image_shape: transform.input_shape,
+        output_shape: transform.input_shape,
+      }
+    case 'source':
+      return {
+        image_shape: transform.source_shape,
+        output_shape: transform.source_shape,
+      }
+    case 'normalized':
+      return {
+        image_shape: { width: 1, height: 1 },
+        output_shape: transform.source_shape,
+      }
+  }
+}
+
+/**
+ * map all bounding boxes from input_shape pixel unit to the given coordinate space.
+ *
+ * The masks are not changed, use `cropMaskPadding()` to crop the letterbox padding from the masks.
+ *
+ * The result is updated in-place.
+ */
+export function mapSegmentResult(
+  result: SegmentResult,
+  transform: InputTransform,
+  coordinate: CoordinateSpace,
+): SegmentResult {
+  if (coordinate === 'input') return result
+  for (let { bounding_boxes } of result) {
+    for (let box of bounding_boxes) {
+      mapBox(box, transform, coordinate)
+    }
+  }
+  return result
+}
+
+/**
+ * crop the letterbox padding from the masks, so the masks span the whole source image.
+ *
+ * masks shape: [batch, mask_height, mask_width, num_channels]
+ */
+export function cropMaskPadding(
+  masks: tf_type.Tensor,
+  transform: InputTransform,
+): tf_type.Tensor {
+  if (!transform.pad_left && !transform.pad_top) {
+    return masks
+  }
+  let shape = masks.shape as number[]
+  let mask_height = shape[1]
+  let mask_width = shape[2]
+  let ratio_x = mask_width / transform.input_shape.width
+  let ratio_y = mask_height / transform.input_shape.height
+  let left = Math.round(transform.pad_left * ratio_x)
+  let top = Math.round(transform.pad_top * ratio_y)
+  let width = Math.round(
+    transform.source_shape.width * transform.scale_x * ratio_x,
+  )
+  let height = Math.round(
+    transform.source_shape.height * transform.scale_y * ratio_y,
+  )
+  width = Math.min(width, mask_width - left)
+  height = Math.min(height, mask_height - top)
+  return masks.slice([0, top, left, 0], [-1, height, width, -1])
+}
+
 function sigmoid(x: number): number {
   return 1 / (1 + Math.exp(-x))
 }
 
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
 export type Rect = { left: number; top: number; right: number; bottom: number }
 
 export function hasOverlap(a: Rect, b: Rect): boolean {
@@ -0,0 +1,348 @@
+import { BinaryMask, binarizeMask, Mask, Rect } from './common'
+
+export type StructuringElementArgs = {
+  /**
+   * radius of the neighborhood in pixels, e.g. `1` for 3x3 neighborhood
+   *
+   * default: `1`
+   */
+  radius?: number
+  /**
+   * shape of the neighborhood
+   *
+   * default: `'square'`
+   */
+  shape?: 'square' | 'disk'
+}
+
+/** binarize the soft mask with the threshold, `1` for object, `0` for background */
+export function thresholdMask<T extends Mask | BinaryMask>(
+  mask: T,
+  /** pixels with mask value above this threshold are considered as object, default: `0.5` */
+  threshold: number = 0.5,
+): T {
+  return toInputType(mask, binarizeMask(mask, threshold))
+}
+
+/** expand the object by the neighborhood, e.g. to close small gaps */
+export function dilateMask<T extends Mask | BinaryMask>(
+  mask: T,
+  args: StructuringElementArgs = {},
+): T {
+  return toInputType(mask, morph(binarizeMask(mask), args, 1))
+}
+
+/**
+ * shrink the object by the neighborhood, e.g. to remove thin protrusions.
+ *
+ * The pixels outside the image are ignored, so the object touching the border is not eroded from the border.
+ */
+export function erodeMask<T extends Mask | BinaryMask>(
+  mask: T,
+  args: StructuringElementArgs = {},
+): T {
+  return toInputType(mask, morph(binarizeMask(mask), args, 0))
+}
+
+/** erode then dilate, removes the speckles smaller than the neighborhood */
+export function openMask<T extends Mask | BinaryMask>(
+  mask: T,
+  args: StructuringElementArgs = {},
+): T {
+  let eroded = morph(binarizeMask(mask), args, 0)
+  return toInputType(mask, morph(eroded, args, 1))
+}
+
+/** dilate then erode, fills the gaps and holes smaller than the neighborhood */
+export function closeMask<T extends Mask | BinaryMask>(
+  mask: T,
+  args: StructuringElementArgs = {},
+): T {
+  let dilated = morph(binarizeMask(mask), args, 1)
+  return toInputType(mask, morph(dilated, args, 0))
+}
+
+/**
+ * @param target `1` to dilate (any neighbor is object), `0` to erode (any neighbor is background)
+ */
+function morph(
+  mask: BinaryMask,
+  args: StructuringElementArgs,
+  target: 0 | 1,
+): BinaryMask {
+  let radius = args.radius ?? 1
+  let { width, height, data } = mask
+
+  let offsets: [dx: number, dy: number][] = []
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (args.shape === 'disk' && dx * dx + dy * dy > radius * radius) {
+        continue
+      }
+      offsets.push([dx, dy])
+    }
+  }
+
+  let output = new Uint8Array(data.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 1 - target
+      for (let [dx, dy] of offsets) {
+        let nx = x + dx
+        let ny = y + dy
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue
+        if (data[ny * width + nx] === target) {
+          value = target
+          break
+        }
+      }
+      output[y * width + x] = value
+    }
+  }
+  return { width, height, data: output }
+}
+
+export type MaskComponent = {
+  /** label of the component in `labels`, starting from `1` */
+  label: number
+  /** number of pixels */
+  area: number
+  /** bounding rect in pixels, `right` and `bottom` are exclusive */
+  rect: Rect
+}
+
+export type MaskComponentsArgs = {
+  /**
+   * `4` to connect the pixels by edges only, `8` to also connect the pixels by corners
+   *
+   * default: `8`
+   */
+  connectivity?: 4 | 8
+}
+
+/**
+ * label the connected components of the object pixels.
+ *
+ * `labels` is in row-major order, `0` for background, otherwise the label of the component.
+ */
+export function labelMaskComponents(
+  mask: Mask | BinaryMask,
+  args: MaskComponentsArgs = {},
+): { labels: Int32Array; components: MaskComponent[] } {
+  let { width, height, data } = binarizeMask(mask)
+  return labelComponents(width, height, data, 1, args.connectivity ?? 8)
+}
+
+function labelComponents(
+  width: number,
+  height: number,
+  data: Uint8Array,
+  value: number,
+  connectivity: 4 | 8,
+): { labels: Int32Array; components: MaskComponent[] } {
+  let neighbors: [dx: number, dy: number][] =
+    connectivity === 4
+      ? [
+          [1, 0],
+          [-1, 0],
+          [0, 1],
+          [0, -1],
+        ]
+      : [
+          [1, 0],
+          [-1, 0],
+          [0, 1],
+          [0, -1],
+          [1, 1],
+          [1, -1],
+          [-1, 1],
+          [-1, -1],
+        ]
+
+  let labels = new Int32Array(width * height)
+  let components: MaskComponent[] = []
+  let stack: number[] = []
+  for (let start = 0; start < data.length; start++) {
+    if (data[start] !== value || labels[start] !== 0) continue
+    let label = components.length + 1
+    let rect: Rect = {
+      left: width,
+      top: height,
+      right: 0,
+      bottom: 0,
+    }
+    let area = 0
+    labels[start] = label
+    stack.push(start)
+    while (stack.length > 0) {
+      let index = stack.pop()!
+      let x = index % width
+      let y = (index - x) / width
+      area++
+      rect.left = Math.min(rect.left, x)
+      rect.top = Math.min(rect.top, y)
+      rect.right = Math.max(rect.right, x + 1)
+      rect.bottom = Math.max(rect.bottom, y + 1)
+      for (let [dx, dy] of neighbors) {
+        let nx = x + dx
+        let ny = y + dy
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue
+        let neighbor = ny * width + nx
+        if (data[neighbor] !== value || labels[neighbor] !== 0) continue
+        labels[neighbor] = label
+        stack.push(neighbor)
+      }
+    }
+    components.push({ label, area, rect })
+  }
+  return { labels, components }
+}
+
+/** remove the connected components of the object pixels, e.g. the speckles away from the object */
+export function filterMaskComponents<T extends Mask | BinaryMask>(
+  mask: T,
+  args: MaskComponentsArgs & {
+    /**
+     * components with less pixels are removed
+     *
+     * default: `0`
+     */
+    min_area?: number
+    /**
+     * whether to only keep the component with the largest area.
+     *
+     * default: `false`
+     */
+    largest_only?: boolean
+  },
+): T {
+  let min_area = args.min_area ?? 0
+  let binary = binarizeMask(mask)
+  let { labels, components } = labelMaskComponents(binary, args)
+
+  let kept = components.filter(component => component.area >= min_area)
+  if (args.largest_only && kept.length > 1) {
+    let largest = kept.reduce((a, b) => (b.area > a.area ? b : a))
+    kept = [largest]
+  }
+  let keep = new Uint8Array(components.length + 1)
+  for (let component of kept) {
+    keep[component.label] = 1
+  }
+
+  let data = new Uint8Array(labels.length)
+  for (let i = 0; i < labels.length; i++) {
+    data[i] = keep[labels[i]]
+  }
+  return toInputType(mask, {
+    width: binary.width,
+    height: binary.height,
+    data,
+  })
+}
+
+/**
+ * fill the background regions enclosed by the object pixels,
+ * i.e. the background not connected to the image border.
+ */
+export function fillMaskHoles<T extends Mask | BinaryMask>(
+  mask: T,
+  args: {
+    /**
+     * only fill the holes up to this number of pixels
+     *
+     * default: `Infinity`
+     */
+    max_area?: number
+  } = {},
+): T {
+  let max_area = args.max_area ?? Infinity
+  let { width, height, data } = binarizeMask(mask)
+  // the background is 4-connected when the object is 8-connected
+  let { labels, components } = labelComponents(width, height, data, 0, 4)
+
+  let fill = new Uint8Array(components.length + 1)
+  for (let { label, area, rect } of components) {
+    let touch_border =
+      rect.left === 0 ||
+      rect.top === 0 ||
+      rect.right === width ||
+      rect.bottom === height
+    if (!touch_border && area <= max_area) {
+      fill[label] = 1
+    }
+  }
+
+  let output = new Uint8Array(data.length)
+  for (let i = 0; i < data.length; i++) {
+    output[i] = data[i] || fill[labels[i]]
+  }
+  return toInputType(mask, { width, height, data: output })
+}
+
+/**
+ * soften the edges of the mask with box blur, e.g. for smooth alpha blending of the mask overlay.
+ *
+ * returns the soft mask in the range of [0, 1], the pixels away from the edges remain `0` or `1`.
+ */
+export function featherMask(
+  mask: Mask | BinaryMask,
+  args: {
+    /**
+     * radius of the blur in pixels
+     *
+     * default: `2`
+     */
+    radius?: number
+  } = {},
+): Mask {
+  let radius = args.radius ?? 2
+  let { width, height, data } = binarizeMask(mask)
+
+  // separable box blur, the pixels outside the image are ignored
+  let horizontal = new Float32Array(data.length)
+  for (let y = 0; y < height; y++) {
+    let offset = y * width
+    for (let x = 0; x < width; x++) {
+      let left = Math.max(0, x - radius)
+      let right = Math.min(width - 1, x + radius)
+      let sum = 0
+      for (let i = left; i <= right; i++) {
+        sum += data[offset + i]
+      }
+      horizontal[offset + x] = sum / (right - left + 1)
+    }
+  }
+
+  let output: Mask = new Array(height)
+  for (let y = 0; y < height; y++) {
+    let top = Math.max(0, y - radius)
+    let bottom = Math.min(height - 1, y + radius)
+    let row: number[] = new Array(width)
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let i = top; i <= bottom; i++) {
+        sum += horizontal[i * width + x]
+      }
+      row[x] = sum / (bottom - top + 1)
+    }
+    output[y] = row
+  }
+  return output
+}
+
+/** convert the result back to the type of the input mask */
+function toInputType<T extends Mask | BinaryMask>(
+  input: T,
+  result: BinaryMask,
+): T {
+  if (!Array.isArray(input)) {
+    return result as T
+  }
+  let { width, height, data } = result
+  let mask: Mask = new Array(height)
+  for (let y = 0; y < height; y++) {
+    mask[y] = Array.from(data.subarray(y * width, (y + 1) * width))
+  }
+  return mask as T
+}
@@ -0,0 +1,319 @@
+import { BinaryMask, ImageSize, Mask } from './common'
+
+/** closed polygon, the last point is connected to the first point */
+export type Polygon = [x: number, y: number][]
+
+export type MaskPolygon = {
+  /** outer contour of the object */
+  points: Polygon
+  /** contours of the holes inside the object */
+  holes: Polygon[]
+  /** area inside the outer contour excluding the holes, in the unit of the points */
+  area: number
+}
+
+export type MaskToPolygonsArgs = {
+  /**
+   * size of the image spanned by the mask, in the unit of the returned points, e.g.
+   * - input_shape for `'input'` coordinate
+   * - source image size for `'source'` coordinate
+   * - `{ width: 1, height: 1 }` for `'normalized'` coordinate
+   *
+   * default: size of the mask, i.e. pixel unit of the mask
+   */
+  image_shape?: ImageSize
+  /**
+   * pixels with mask value above this threshold are considered as object
+   *
+   * default: `0.5`
+   */
+  threshold?: number
+  /**
+   * tolerance of Douglas-Peucker simplification, in pixel unit of the mask.
+   *
+   * `0` to only remove the collinear points.
+   *
+   * default: `1`
+   */
+  epsilon?: number
+  /**
+   * whether to only return the polygon with the largest area.
+   *
+   * default: `false`
+   */
+  largest_only?: boolean
+}
+
+/**
+ * trace the contours of the mask with marching squares,
+ * e.g. to store or send the segmentation result in compact form.
+ *
+ * The contours are interpolated between the pixel centers by the mask values,
+ * so the polygons follow the soft mask from `combineMask()` at sub-pixel precision.
+ *
+ * returns one polygon for each connected component of the object pixels,
+ * sorted by area in descending order.
+ */
+export function maskToPolygons(
+  mask: Mask | BinaryMask,
+  args: MaskToPolygonsArgs = {},
+): MaskPolygon[] {
+  let threshold = args.threshold ?? 0.5
+  let epsilon = args.epsilon ?? 1
+
+  let { width, height, getValue } = readMask(mask)
+  let image_shape = args.image_shape || { width, height }
+  let scale_x = image_shape.width / width
+  let scale_y = image_shape.height / height
+
+  let contours = traceContours(width, height, getValue, threshold)
+    .map(contour => simplifyPolygon(contour, epsilon))
+    .filter(contour => contour.length >= 3)
+    .map(contour => {
+      let points: Polygon = contour.map(([x, y]) => [x * scale_x, y * scale_y])
+      return { points, signed_area: signedArea(points) }
+    })
+
+  // the outer contours and the holes are traced in opposite directions
+  let outers = contours.filter(contour => contour.signed_area < 0)
+  let holes = contours.filter(contour => contour.signed_area > 0)
+
+  let polygons = outers
+    .map(outer => ({
+      points: outer.points,
+      holes: [] as Polygon[],
+      area: -outer.signed_area,
+    }))
+    .sort((a, b) => a.area - b.area)
+
+  for (let hole of holes) {
+    // the innermost outer contour containing the hole
+    let polygon = polygons.find(polygon =>
+      isInsidePolygon(hole.points[0], polygon.points),
+    )
+    if (polygon) {
+      polygon.holes.push(hole.points)
+      polygon.area -= hole.signed_area
+    }
+  }
+
+  polygons.sort((a, b) => b.area - a.area)
+  return args.largest_only ? polygons.slice(0, 1) : polygons
+}
+
+function readMask(mask: Mask | BinaryMask): {
+  width: number
+  height: number
+  getValue: (x: number, y: number) => number
+} {
+  if (Array.isArray(mask)) {
+    return {
+      width: mask[0]?.length || 0,
+      height: mask.length,
+      getValue: (x, y) => mask[y][x],
+    }
+  }
+  let { width, height, data } = mask
+  return { width, height, getValue: (x, y) => data[y * width + x] }
+}
+
+/**
+ * marching squares over the pixel centers,
+ * padded with background so the contours are always closed.
+ *
+ * returns the contours in pixel unit of the mask,
+ * the outer contours are counter-clockwise and the holes are clockwise on screen.
+ */
+function traceContours(
+  width: number,
+  height: number,
+  getValue: (x: number, y: number) => number,
+  threshold: number,
+): Polygon[] {
+  // padded grid: column i is pixel x = i - 1, row j is pixel y = j - 1
+  let grid_width = width + 2
+  let grid_height = height + 2
+  let values = new Float64Array(grid_width * grid_height).fill(-Infinity)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      values[(y + 1) * grid_width + (x + 1)] = getValue(x, y)
+    }
+  }
+
+  // each crossing on the grid edges is identified by the edge index:
+  // horizontal edge from (i, j) to (i + 1, j) is `2 * (j * grid_width + i)`,
+  // vertical edge from (i, j) to (i, j + 1) is `2 * (j * grid_width + i) + 1`
+  let crossings = new Map<number, [x: number, y: number]>()
+  let next = new Map<number, number>()
+
+  function getCrossing(
+    edge: number,
+    a: number,
+    b: number,
+  ): [x: number, y: number] {
+    let point = crossings.get(edge)
+    if (point) {
+      return point
+    }
+    let offset = edge >> 1
+    let i = offset % grid_width
+    let j = (offset - i) / grid_width
+    let va = values[a]
+    let vb = values[b]
+    // place the crossing on the image border when next to the padding
+    let t =
+      va === -Infinity || vb === -Infinity
+        ? 0.5
+        : clamp((threshold - va) / (vb - va), 0, 1)
+    // pixel center of grid (i, j) is at (i - 0.5, j - 0.5)
+    point = edge & 1 ? [i - 0.5, j - 0.5 + t] : [i - 0.5 + t, j - 0.5]
+    crossings.set(edge, point)
+    return point
+  }
+
+  for (let j = 0; j < grid_height - 1; j++) {
+    for (let i = 0; i < grid_width - 1; i++) {
+      // corners and edges of the cell in clockwise order on screen: top-left, top-right, bottom-right, bottom-left
+      let corners = [
+        j * grid_width + i,
+        j * grid_width + i + 1,
+        (j + 1) * grid_width + i + 1,
+        (j + 1) * grid_width + i,
+      ]
+      let edges = [
+        2 * corners[0],
+        2 * corners[1] + 1,
+        2 * corners[3],
+        2 * corners[0] + 1,
+      ]
+      let inside = corners.map(corner => values[corner] > threshold)
+
+      // crossings along the cell border, going from outside to inside (entry) or inside to outside (exit)
+      let cell_crossings: { edge: number; entry: boolean }[] = []
+      for (let k = 0; k < 4; k++) {
+        let a = corners[k]
+        let b = corners[(k + 1) % 4]
+        if (inside[k] === inside[(k + 1) % 4]) continue
+        // always interpolate from the smaller grid index, so the shared edge has the same crossing in both cells
+        if (a < b) {
+          getCrossing(edges[k], a, b)
+        } else {
+          getCrossing(edges[k], b, a)
+        }
+        cell_crossings.push({ edge: edges[k], entry: !inside[k] })
+      }
+      if (cell_crossings.length === 0) continue
+
+      // saddle: join the two inside corners when the center of the cell is inside
+      let joined =
+        cell_crossings.length === 4 &&
+        corners.reduce((acc, corner) => acc + values[corner], 0) / 4 > threshold
+
+      let n = cell_crossings.length
+      for (let k = 0; k < n; k++) {
+        let crossing = cell_crossings[k]
+        if (!crossing.entry) continue
+        // separated: go through the inside corners to the next exit, otherwise cut across to the previous exit
+        let exit = cell_crossings[(k + (joined ? n - 1 : 1)) % n]
+        next.set(crossing.edge, exit.edge)
+      }
+    }
+  }
+
+  let contours: Polygon[] = []
+  for (let start of next.keys()) {
+    if (!crossings.has(start)) continue
+    let contour: Polygon = []
+    let edge: number | undefined = start
+    while (edge !== undefined && crossings.has(edge)) {
+      contour.push(crossings.get(edge)!)
+      // mark as visited
+      crossings.delete(edge)
+      edge = next.get(edge)
+    }
+    contours.push(contour)
+  }
+  return contours
+}
+
+/**
+ * Douglas-Peucker simplification of the closed polygon,
+ * split at the first point and the point farthest from it.
+ */
+function simplifyPolygon(polygon: Polygon, epsilon: number): Polygon {
+  if (polygon.length < 3) {
+    return polygon
+  }
+  let [x0, y0] = polygon[0]
+  let farthest = 0
+  let max_distance = -1
+  for (let i = 1; i < polygon.length; i++) {
+    let distance = Math.hypot(polygon[i][0] - x0, polygon[i][1] - y0)
+    if (distance > max_distance) {
+      max_distance = distance
+      farthest = i
+    }
+  }
+  let first = simplifyLine(polygon.slice(0, farthest + 1), epsilon)
+  let second = simplifyLine([...polygon.slice(farthest), polygon[0]], epsilon)
+  return [...first.slice(0, -1), ...second.slice(0, -1)]
+}
+
+function simplifyLine(line: Polygon, epsilon: number): Polygon {
+  if (line.length <= 2) {
+    return line
+  }
+  let [ax, ay] = line[0]
+  let [bx, by] = line[line.length - 1]
+  let length = Math.hypot(bx - ax, by - ay)
+  let index = 0
+  let max_distance = -1
+  for (let i = 1; i < line.length - 1; i++) {
+    let [x, y] = line[i]
+    let distance =
+      length === 0
+        ? Math.hypot(x - ax, y - ay)
+        : Math.abs((bx - ax) * (ay - y) - (ax - x) * (by - ay)) / length
+    if (distance > max_distance) {
+      max_distance = distance
+      index = i
+    }
+  }
+  if (max_distance <= epsilon) {
+    return [line[0], line[line.length - 1]]
+  }
+  let left = simplifyLine(line.slice(0, index + 1), epsilon)
+  let right = simplifyLine(line.slice(index), epsilon)
+  return [...left.slice(0, -1), ...right]
+}
+
+/** shoelace formula, negative for counter-clockwise polygon on screen */
+function signedArea(polygon: Polygon): number {
+  let sum = 0
+  for (let i = 0; i < polygon.length; i++) {
+    let [x1, y1] = polygon[i]
+    let [x2, y2] = polygon[(i + 1) % polygon.length]
+    sum += x1 * y2 - x2 * y1
+  }
+  return sum / 2
+}
+
+/** ray casting test */
+function isInsidePolygon(
+  [x, y]: [x: number, y: number],
+  polygon: Polygon,
+): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    let [xi, yi] = polygon[i]
+    let [xj, yj] = polygon[j]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
@@ -0,0 +1,199 @@
+import { BinaryMask, binarizeMask, Mask } from './common'
+
+/**
+ * COCO run-length encoding of a binary mask.
+ *
+ * The pixels are scanned in column-major order,
+ * `counts` alternates the run lengths of `0` and `1`, starting from `0`.
+ */
+export type RLE = {
+  size: [height: number, width: number]
+  counts: number[]
+}
+
+/** same as `RLE`, with the counts compressed into string, same as pycocotools */
+export type CompressedRLE = {
+  size: [height: number, width: number]
+  counts: string
+}
+
+/**
+ * encode the mask into COCO run-length encoding,
+ * e.g. for the `segmentation` field of COCO annotation.
+ *
+ * The soft mask, e.g. from `combineMask()`, is binarized with the threshold.
+ */
+export function encodeRLE(
+  mask: Mask | BinaryMask,
+  args: {
+    /** pixels with mask value above this threshold are considered as object, default: `0.5` */
+    threshold?: number
+  } = {},
+): RLE {
+  let { width, height, data } = binarizeMask(mask, args.threshold)
+  let counts: number[] = []
+  let value = 0
+  let count = 0
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      if (data[y * width + x] === value) {
+        count++
+        continue
+      }
+      counts.push(count)
+      value = 1 - value
+      count = 1
+    }
+  }
+  counts.push(count)
+  return { size: [height, width], counts }
+}
+
+/** decode the COCO run-length encoding into binary mask */
+export function decodeRLE(rle: RLE | CompressedRLE): BinaryMask {
+  let [height, width] = rle.size
+  let { counts } = decompressRLE(rle)
+  let data = new Uint8Array(width * height)
+  let index = 0
+  for (let i = 0; i < counts.length; i++) {
+    let end = index + counts[i]
+    if (end > data.length) {
+      throw new Error(
+        `RLE counts exceed the mask size of ${height}x${width} pixels`,
+      )
+    }
+    if (i % 2 === 1) {
+      for (; index < end; index++) {
+        // column-major index to row-major index
+        let x = Math.floor(index / height)
+        let y = index % height
+        data[y * width + x] = 1
+      }
+    }
+    index = end
+  }
+  return { width, height, data }
+}
+
+/**
+ * compress the counts into string, same as `rleToString()` of pycocotools,
+ * e.g. for the `segmentation` field of COCO result.
+ *
+ * Each count is stored as the difference to the count two positions before,
+ * in variable-length 5-bit groups encoded as ASCII characters.
+ */
+export function compressRLE(rle: RLE | CompressedRLE): CompressedRLE {
+  if (typeof rle.counts === 'string') {
+    return rle as CompressedRLE
+  }
+  let { counts } = rle
+  let chars: string[] = []
+  for (let i = 0; i < counts.length; i++) {
+    let x = counts[i]
+    if (i > 2) {
+      x -= counts[i - 2]
+    }
+    let more = true
+    while (more) {
+      let c = x & 0x1f
+      x = Math.floor(x / 32)
+      // stop when the remaining bits are the sign extension of the last group
+      more = c & 0x10 ? x !== -1 : x !== 0
+      if (more) {
+        c |= 0x20
+      }
+      chars.push(String.fromCharCode(c + 48))
+    }
+  }
+  return { size: rle.size, counts: chars.join('') }
+}
+
+/** decompress the counts from string, same as `rleFrString()` of pycocotools */
+export function decompressRLE(rle: RLE | CompressedRLE): RLE {
+  if (typeof rle.counts !== 'string') {
+    return rle as RLE
+  }
+  let text = rle.counts
+  let counts: number[] = []
+  let p = 0
+  while (p < text.length) {
+    let x = 0
+    let k = 0
+    let more = true
+    while (more) {
+      if (p >= text.length) {
+        throw new Error('incomplete RLE counts string')
+      }
+      let c = text.charCodeAt(p) - 48
+      x += (c & 0x1f) * 2 ** (5 * k)
+      more = (c & 0x20) !== 0
+      p++
+      k++
+      if (!more && c & 0x10) {
+        // sign extension
+        x -= 2 ** (5 * k)
+      }
+    }
+    if (counts.length > 2) {
+      x += counts[counts.length - 2]
+    }
+    counts.push(x)
+  }
+  return { size: rle.size, counts }
+}
+
+/** number of object pixels of the mask */
+export function calcRLEArea(rle: RLE | CompressedRLE): number {
+  let { counts } = decompressRLE(rle)
+  let area = 0
+  for (let i = 1; i < counts.length; i += 2) {
+    area += counts[i]
+  }
+  return area
+}
+
+/**
+ * intersection over union of two masks, computed on the runs without decoding the masks.
+ *
+ * returns `0` when both masks are empty.
+ */
+export function calcRLEIoU(
+  a: RLE | CompressedRLE,
+  b: RLE | CompressedRLE,
+): number {
+  if (a.size[0] !== b.size[0] || a.size[1] !== b.size[1]) {
+    throw new Error(
+      `expect masks of the same size, but got ${a.size.join('x')} and ${b.size.join('x')}`,
+    )
+  }
+  let rle_a = decompressRLE(a)
+  let rle_b = decompressRLE(b)
+  let counts_a = rle_a.counts
+  let counts_b = rle_b.counts
+
+  let intersection = 0
+  let i = 0
+  let j = 0
+  // remaining length of the current runs
+  let rest_a = counts_a[0] || 0
+  let rest_b = counts_b[0] || 0
+  while (i < counts_a.length && j < counts_b.length) {
+    let step = Math.min(rest_a, rest_b)
+    if (i % 2 === 1 && j % 2 === 1) {
+      intersection += step
+    }
+    rest_a -= step
+    rest_b -= step
+    while (rest_a === 0 && i < counts_a.length) {
+      i++
+      rest_a = counts_a[i] || 0
+    }
+    while (rest_b === 0 && j < counts_b.length) {
+      j++
+      rest_b = counts_b[j] || 0
+    }
+  }
+
+  let union = calcRLEArea(rle_a) + calcRLEArea(rle_b) - intersection
+  return union === 0 ? 0 : intersection / union
+}
@@ -0,0 +1,221 @@
+import {
+  BinaryMask,
+  binarizeMask,
+  BoundingBoxWithMaskCoefficients,
+  ImageSize,
+  Mask,
+  processMask,
+  ProcessMaskArgs,
+  SegmentResult,
+} from './common'
+
+export type MaskStatisticsArgs = {
+  /**
+   * size of the image spanned by the mask, in the same unit as the bounding box, e.g.
+   * - input_shape for `'input'` coordinate
+   * - source image size for `'source'` coordinate
+   * - `{ width: 1, height: 1 }` for `'normalized'` coordinate
+   *
+   * default: size of the mask, i.e. pixel unit of the mask
+   */
+  image_shape?: ImageSize
+  /**
+   * pixels with mask value above this threshold are considered as object
+   *
+   * default: `0.5`
+   */
+  threshold?: number
+}
+
+export type MaskStatistics = {
+  /** area of the object pixels, in the squared unit of `image_shape` */
+  area: number
+  /** center of mass of the object pixels */
+  centroid: { x: number; y: number }
+  /** tight bounding box of the object pixels, x and y are the center of the box, same as `BoundingBox` */
+  bounds: { x: number; y: number; width: number; height: number }
+  /**
+   * angle of the major axis from the x-axis, in radians,
+   * in the range of (-PI/2, PI/2], clockwise in image coordinate, same as `RotatedBox`
+   */
+  angle: number
+  /** length of the major axis of the ellipse with the same second moments as the object pixels */
+  major_axis: number
+  /** length of the minor axis of the ellipse with the same second moments as the object pixels */
+  minor_axis: number
+}
+
+/** number of object pixels of the mask */
+export function calcMaskArea(
+  mask: Mask | BinaryMask,
+  /** pixels with mask value above this threshold are considered as object, default: `0.5` */
+  threshold?: number,
+): number {
+  let { data } = binarizeMask(mask, threshold)
+  let area = 0
+  for (let i = 0; i < data.length; i++) {
+    area += data[i]
+  }
+  return area
+}
+
+/**
+ * properties of the object pixels from the image moments,
+ * in the unit of `image_shape`.
+ *
+ * returns `null` when the mask has no object pixels.
+ */
+export function calcMaskStatistics(
+  mask: Mask | BinaryMask,
+  args: MaskStatisticsArgs = {},
+): MaskStatistics | null {
+  let { width, height, data } = binarizeMask(mask, args.threshold)
+  let image_shape = args.image_shape || { width, height }
+  let scale_x = image_shape.width / width
+  let scale_y = image_shape.height / height
+
+  let count = 0
+  let sum_x = 0
+  let sum_y = 0
+  let sum_xx = 0
+  let sum_yy = 0
+  let sum_xy = 0
+  let left = width
+  let top = height
+  let right = 0
+  let bottom = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!data[y * width + x]) continue
+      // center of the pixel in image unit
+      let px = (x + 0.5) * scale_x
+      let py = (y + 0.5) * scale_y
+      count++
+      sum_x += px
+      sum_y += py
+      sum_xx += px * px
+      sum_yy += py * py
+      sum_xy += px * py
+      left = Math.min(left, x)
+      top = Math.min(top, y)
+      right = Math.max(right, x + 1)
+      bottom = Math.max(bottom, y + 1)
+    }
+  }
+  if (count === 0) {
+    return null
+  }
+
+  let cx = sum_x / count
+  let cy = sum_y / count
+  // normalized central moments, i.e. the covariance of the pixel positions
+  let mu20 = sum_xx / count - cx * cx
+  let mu02 = sum_yy / count - cy * cy
+  let mu11 = sum_xy / count - cx * cy
+  let half_sum = (mu20 + mu02) / 2
+  let half_diff = Math.sqrt(((mu20 - mu02) / 2) ** 2 + mu11 ** 2)
+  let angle = Math.atan2(2 * mu11, mu20 - mu02) / 2
+  if (angle <= -Math.PI / 2) {
+    angle += Math.PI
+  }
+
+  return {
+    area: count * scale_x * scale_y,
+    centroid: { x: cx, y: cy },
+    bounds: {
+      x: ((left + right) / 2) * scale_x,
+      y: ((top + bottom) / 2) * scale_y,
+      width: (right - left) * scale_x,
+      height: (bottom - top) * scale_y,
+    },
+    angle,
+    major_axis: 4 * Math.sqrt(half_sum + half_diff),
+    minor_axis: 4 * Math.sqrt(Math.max(0, half_sum - half_diff)),
+  }
+}
+
+/**
+ * area of the object pixels over the area of the bounding box, in the range of [0, 1] for masks cropped to the box,
+ * e.g. lower for thin or hollow objects.
+ *
+ * returns `0` when the bounding box is empty.
+ */
+export function calcMaskAreaRatio(
+  mask: Mask | BinaryMask,
+  bounding_box: { width: number; height: number },
+  args: MaskStatisticsArgs = {},
+): number {
+  let { width, height, data } = binarizeMask(mask, args.threshold)
+  let image_shape = args.image_shape || { width, height }
+  let box_area = bounding_box.width * bounding_box.height
+  if (box_area === 0) {
+    return 0
+  }
+  let pixel_area = (image_shape.width / width) * (image_shape.height / height)
+  return (calcMaskArea({ width, height, data }) * pixel_area) / box_area
+}
+
+/**
+ * intersection over union of two masks of the same size.
+ *
+ * returns `0` when both masks are empty.
+ */
+export function calcMaskIoU(
+  a: Mask | BinaryMask,
+  b: Mask | BinaryMask,
+  /** pixels with mask value above this threshold are considered as object, default: `0.5` */
+  threshold?: number,
+): number {
+  let mask_a = binarizeMask(a, threshold)
+  let mask_b = binarizeMask(b, threshold)
+  if (mask_a.width !== mask_b.width || mask_a.height !== mask_b.height) {
+    throw new Error(
+      `expect masks of the same size, but got ${mask_a.width}x${mask_a.height} and ${mask_b.width}x${mask_b.height}`,
+    )
+  }
+  let intersection = 0
+  let union = 0
+  for (let i = 0; i < mask_a.data.length; i++) {
+    intersection += mask_a.data[i] & mask_b.data[i]
+    union += mask_a.data[i] | mask_b.data[i]
+  }
+  return union === 0 ? 0 : intersection / union
+}
+
+export type BoundingBoxWithMaskStatistics = BoundingBoxWithMaskCoefficients & {
+  /** `null` when the mask has no object pixels */
+  mask_statistics: MaskStatistics | null
+  /** same as `calcMaskAreaRatio()` */
+  mask_area_ratio: number
+}
+
+/** same as `SegmentResult`, with the statistics attached to each bounding box */
+export type SegmentStatisticsResult = {
+  bounding_boxes: BoundingBoxWithMaskStatistics[]
+  masks: Mask[]
+}[]
+
+/**
+ * attach the statistics of the mask of each bounding box, combined with `processMask()`.
+ *
+ * The `image_shape` should match the coordinate space of the bounding boxes,
+ * and `output_shape` can be smaller for faster computation with coarser statistics.
+ *
+ * The result is updated in-place.
+ */
+export function attachMaskStatistics(
+  result: SegmentResult,
+  args: Omit<ProcessMaskArgs, 'masks'>,
+): SegmentStatisticsResult {
+  for (let { bounding_boxes, masks } of result) {
+    for (let box of bounding_boxes) {
+      let mask = processMask(box, { ...args, masks })
+      let statistics_args = { image_shape: args.image_shape }
+      Object.assign(box, {
+        mask_statistics: calcMaskStatistics(mask, statistics_args),
+        mask_area_ratio: calcMaskAreaRatio(mask, box, statistics_args),
+      })
+    }
+  }
+  return result as SegmentStatisticsResult
+}
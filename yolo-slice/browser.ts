@@ -0,0 +1,386 @@
+import * as tf from '@tensorflow/tfjs'
+import {
+  getSliceBatchSize,
+  getSliceTiles,
+  mergeSlicedBoxes,
+  SliceArgs,
+  sliceInput,
+  SliceTile,
+} from './common'
+import { ImageInput } from '../tensorflow/browser'
+import {
+  getImageSize,
+  getModelInputShape,
+  mapBox,
+  ResizeMode,
+} from '../tensorflow/common'
+import {
+  BoundingBox,
+  BoxResult,
+  DecodeBoxArgs,
+  decodeBoxData,
+  decodeBoxDataSync,
+  mapBoxResult,
+  resolveBoxParams,
+} from '../yolo-box/common'
+import {
+  DecodePoseArgs,
+  decodePoseData,
+  decodePoseDataSync,
+  mapPoseResult,
+  PoseResult,
+  resolvePoseParams,
+} from '../yolo-pose/common'
+import {
+  BoundingBoxWithMask,
+  cropBoxMask,
+  DecodeSegmentArgs,
+  decodeSegmentData,
+  decodeSegmentDataSync,
+  resolveSegmentParams,
+  SegmentResult,
+} from '../yolo-segment/common'
+export * from './common'
+
+type DetectSlicedArgs = {
+  model: tf.InferenceModel
+  /** used for image resize when necessary, auto inferred from model shape */
+  input_shape?: {
+    width: number
+    height: number
+  }
+  /** how to fit each slice into input_shape, default: `'stretch'` */
+  resize_mode?: ResizeMode
+} & SliceArgs &
+  ImageInput
+
+export type DetectBoxSlicedArgs = DetectSlicedArgs & {
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+} & Omit<DecodeBoxArgs, 'output' | 'num_classes' | 'maxOutputSize'>
+
+export type DetectPoseSlicedArgs = DetectSlicedArgs & {
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+  /**
+   * e.g. `17` for 17 keypoints
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_keypoints?: number
+  /**
+   * for each keypoints, are them {x,y} or {x,y,visibility}
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  visibility?: boolean
+} & Omit<
+    DecodePoseArgs,
+    'output' | 'num_classes' | 'num_keypoints' | 'visibility' | 'maxOutputSize'
+  >
+
+export type DetectSegmentSlicedArgs = DetectSlicedArgs & {
+  /**
+   * e.g. `1` for single class
+   *
+   * auto inferred from model metadata or output shape if not specified
+   */
+  num_classes?: number
+  /**
+   * Number of channels in segmentation mask, e.g. `32`
+   *
+   * auto inferred from output shape if not specified
+   */
+  num_channels?: number
+} & Omit<
+    DecodeSegmentArgs,
+    | 'output_boxes'
+    | 'output_masks'
+    | 'num_classes'
+    | 'num_channels'
+    | 'maxOutputSize'
+  >
+
+/**
+ * output shape: [batch, box]
+ *
+ * Array of batches, each containing array of detected bounding boxes with the mask of the box area
+ */
+export type SlicedSegmentResult = BoundingBoxWithMask[][]
+
+/**
+ * Sliced inference (SAHI) version of `detectBox()`, for detecting small objects in high-resolution images.
+ *
+ * The x, y, width, height are in pixel unit of the source image, unless `coordinate` is `'normalized'`.
+ */
+export async function detectBoxSliced(
+  args: DetectBoxSlicedArgs,
+): Promise<BoxResult> {
+  let coordinate = args.coordinate ?? 'source'
+  return detectSlices(args, async (result: tf.Tensor, tiles) => {
+    let output = (await result.data()) as Float32Array
+    result.dispose()
+    let batches = await decodeBoxData({
+      ...args,
+      ...resolveBoxParams(args, args.model, result.shape),
+      output,
+      output_shape: result.shape,
+    })
+    return tiles.map(
+      (tile, i) => mapBoxResult([batches[i]], tile.transform, coordinate)[0],
+    )
+  })
+}
+
+/**
+ * Sync version of `detectBoxSliced`.
+ */
+export function detectBoxSlicedSync(args: DetectBoxSlicedArgs): BoxResult {
+  let coordinate = args.coordinate ?? 'source'
+  return detectSlicesSync(args, (result: tf.Tensor, tiles) => {
+    let output = result.dataSync() as Float32Array
+    result.dispose()
+    let batches = decodeBoxDataSync({
+      ...args,
+      ...resolveBoxParams(args, args.model, result.shape),
+      output,
+      output_shape: result.shape,
+    })
+    return tiles.map(
+      (tile, i) => mapBoxResult([batches[i]], tile.transform, coordinate)[0],
+    )
+  })
+}
+
+/**
+ * Sliced inference (SAHI) version of `detectPose()`, for detecting small objects in high-resolution images.
+ *
+ * The x, y, width, height of boxes and keypoints are in pixel unit of the source image, unless `coordinate` is `'normalized'`.
+ */
+export async function detectPoseSliced(
+  args: DetectPoseSlicedArgs,
+): Promise<PoseResult> {
+  let coordinate = args.coordinate ?? 'source'
+  return detectSlices(args, async (result: tf.Tensor, tiles) => {
+    let output = (await result.data()) as Float32Array
+    result.dispose()
+    let batches = await decodePoseData({
+      ...args,
+      ...resolvePoseParams(args, args.model, result.shape),
+      output,
+      output_shape: result.shape,
+    })
+    return tiles.map(
+      (tile, i) => mapPoseResult([batches[i]], tile.transform, coordinate)[0],
+    )
+  })
+}
+
+/**
+ * Sync version of `detectPoseSliced`.
+ */
+export function detectPoseSlicedSync(args: DetectPoseSlicedArgs): PoseResult {
+  let coordinate = args.coordinate ?? 'source'
+  return detectSlicesSync(args, (result: tf.Tensor, tiles) => {
+    let output = result.dataSync() as Float32Array
+    result.dispose()
+    let batches = decodePoseDataSync({
+      ...args,
+      ...resolvePoseParams(args, args.model, result.shape),
+      output,
+      output_shape: result.shape,
+    })
+    return tiles.map(
+      (tile, i) => mapPoseResult([batches[i]], tile.transform, coordinate)[0],
+    )
+  })
+}
+
+/**
+ * Sliced inference (SAHI) version of `detectSegment()`, for detecting small objects in high-resolution images.
+ *
+ * The masks of different slices cannot be combined with the same mask coefficients,
+ * so each bounding box comes with the mask of the box area instead.
+ *
+ * The x, y, width, height are in pixel unit of the source image, unless `coordinate` is `'normalized'`.
+ */
+export async function detectSegmentSliced(
+  args: DetectSegmentSlicedArgs,
+): Promise<SlicedSegmentResult> {
+  let input_shape = args.input_shape || getModelInputShape(args.model)
+  let coordinate = args.coordinate ?? 'source'
+  return detectSlices(args, async (result: tf.Tensor[], tiles) => {
+    let [output_boxes, output_masks] = await Promise.all([
+      result[0].data() as Promise<Float32Array>,
+      result[1].array() as Promise<number[][][][]>,
+    ])
+    tf.dispose(result)
+    let batches = await decodeSegmentData({
+      ...args,
+      ...resolveSegmentParams(
+        args,
+        args.model,
+        result[0].shape,
+        result[1].shape,
+      ),
+      mask_shape: getImageSize(result[1]),
+      boxes_shape: result[0].shape,
+      output_boxes,
+      output_masks,
+    })
+    return tiles.map((tile, i) =>
+      toBoxesWithMask(batches[i], tile, input_shape, coordinate),
+    )
+  })
+}
+
+/**
+ * Sync version of `detectSegmentSliced`.
+ */
+export function detectSegmentSlicedSync(
+  args: DetectSegmentSlicedArgs,
+): SlicedSegmentResult {
+  let input_shape = args.input_shape || getModelInputShape(args.model)
+  let coordinate = args.coordinate ?? 'source'
+  return detectSlicesSync(args, (result: tf.Tensor[], tiles) => {
+    let output_boxes = result[0].dataSync() as Float32Array
+    let output_masks = result[1].arraySync() as number[][][][]
+    tf.dispose(result)
+    let batches = decodeSegmentDataSync({
+      ...args,
+      ...resolveSegmentParams(
+        args,
+        args.model,
+        result[0].shape,
+        result[1].shape,
+      ),
+      mask_shape: getImageSize(result[1]),
+      boxes_shape: result[0].shape,
+      output_boxes,
+      output_masks,
+    })
+    return tiles.map((tile, i) =>
+      toBoxesWithMask(batches[i], tile, input_shape, coordinate),
+    )
+  })
+}
+
+function toBoxesWithMask(
+  { bounding_boxes, masks }: SegmentResult[number],
+  tile: SliceTile,
+  input_shape: { width: number; height: number },
+  coordinate: 'source' | 'normalized',
+): BoundingBoxWithMask[] {
+  return bounding_boxes.map(box => {
+    let { mask_coefficients, ...rest } = box
+    let result: BoundingBoxWithMask = {
+      ...rest,
+      mask: cropBoxMask(box, masks, input_shape),
+    }
+    mapBox(result, tile.transform, coordinate)
+    return result
+  })
+}
+
+/**
+ * run the model on each batch of slices,
+ * then merge the decoded detections of each image.
+ *
+ * The `decode` function should dispose the output tensors.
+ */
+async function detectSlices<Output, Box extends BoundingBox>(
+  args: DetectSlicedArgs & { nms?: DecodeBoxArgs['nms'] },
+  decode: (output: Output, tiles: SliceTile[]) => Promise<Box[][]>,
+): Promise<Box[][]> {
+  let { model } = args
+
+  let input_shape = args.input_shape || getModelInputShape(model)
+  let { batch_size, fixed } = getSliceBatchSize(args, model)
+
+  let input =
+    'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
+  let num_images = input.rank === 4 ? input.shape[0] : 1
+  let tiles = getSliceTiles(args, getImageSize(input), input_shape, num_images)
+
+  let detections: Box[][] = Array.from({ length: num_images }, () => [])
+  try {
+    for (let offset = 0; offset < tiles.length; offset += batch_size) {
+      let batch_tiles = tiles.slice(offset, offset + batch_size)
+      let output = tf.tidy(() => {
+        let batch = sliceInput({
+          tf,
+          input,
+          tiles: batch_tiles,
+          input_shape,
+          resize_mode: args.resize_mode,
+          batch_size: fixed ? batch_size : undefined,
+        })
+        return model.predict(batch, {}) as tf.Tensor | tf.Tensor[]
+      }) as Output
+      let batches = await decode(output, batch_tiles)
+      batch_tiles.forEach((tile, i) => {
+        detections[tile.batch_index].push(...batches[i])
+      })
+    }
+  } finally {
+    if (!('tensor' in args)) {
+      input.dispose()
+    }
+  }
+
+  return detections.map(boxes => mergeSlicedBoxes(boxes, args))
+}
+
+/**
+ * Sync version of `detectSlices`.
+ */
+function detectSlicesSync<Output, Box extends BoundingBox>(
+  args: DetectSlicedArgs & { nms?: DecodeBoxArgs['nms'] },
+  decode: (output: Output, tiles: SliceTile[]) => Box[][],
+): Box[][] {
+  let { model } = args
+
+  let input_shape = args.input_shape || getModelInputShape(model)
+  let { batch_size, fixed } = getSliceBatchSize(args, model)
+
+  let input =
+    'tensor' in args ? args.tensor : tf.browser.fromPixels(args.pixels)
+  let num_images = input.rank === 4 ? input.shape[0] : 1
+  let tiles = getSliceTiles(args, getImageSize(input), input_shape, num_images)
+
+  let detections: Box[][] = Array.from({ length: num_images }, () => [])
+  try {
+    for (let offset = 0; offset < tiles.length; offset += batch_size) {
+      let batch_tiles = tiles.slice(offset, offset + batch_size)
+      let output = tf.tidy(() => {
+        let batch = sliceInput({
+          tf,
+          input,
+          tiles: batch_tiles,
+          input_shape,
+          resize_mode: args.resize_mode,
+          batch_size: fixed ? batch_size : undefined,
+        })
+        return model.predict(batch, {}) as tf.Tensor | tf.Tensor[]
+      }) as Output
+      let batches = decode(output, batch_tiles)
+      batch_tiles.forEach((tile, i) => {
+        detections[tile.batch_index].push(...batches[i])
+      })
+    }
+  } finally {
+    if (!('tensor' in args)) {
+      input.dispose()
+    }
+  }
+
+  return detections.map(boxes => mergeSlicedBoxes(boxes, args))
+}
@@ -0,0 +1,322 @@
+import type * as tf_type from '@tensorflow/tfjs'
+import {
+  CoordinateSpace,
+  getInputTransform,
+  ImageSize,
+  InputTransform,
+  preprocessInput,
+  ResizeMode,
+} from '../tensorflow/common'
+import {
+  BoundingBox,
+  BoxCorners,
+  calcIoS,
+  calcIoU,
+  NmsMode,
+} from '../yolo-box/common'
+
+/**
+ * Options of sliced inference (SAHI), for detecting small objects in high-resolution images.
+ *
+ * The image is split into overlapping slices, each slice is resized to the input_shape and detected separately,
+ * then the detections are mapped back to the whole image and the duplicates across the slices are merged.
+ */
+export type SliceArgs = {
+  /**
+   * size of each slice, in source pixel unit
+   *
+   * default: input_shape of the model
+   */
+  slice_shape?: ImageSize
+  /**
+   * overlap between adjacent slices, relative to the slice_shape
+   *
+   * default: `0.2`
+   */
+  overlap_ratio?: number
+  /**
+   * whether to also detect on the whole image, to catch the objects larger than a slice
+   *
+   * default: `true`
+   */
+  full_image?: boolean
+  /**
+   * number of slices per `model.predict()` call
+   *
+   * default: batch size of the model input, or `4` if the batch size is dynamic
+   */
+  batch_size?: number
+  /**
+   * how to compare the detections of different slices:
+   * - `'ios'`: intersection over the smaller box, also matches the partial box cut by the slice border
+   * - `'iou'`: intersection over union
+   *
+   * default: `'ios'`
+   */
+  merge_metric?: 'ios' | 'iou'
+  /**
+   * the threshold for deciding whether two detections are duplicated.
+   *
+   * The duplicated detection with lower confidence is dropped.
+   * Detections of different classes are not merged when `nms` is `'per-class'`.
+   *
+   * default: `0.5`
+   */
+  merge_threshold?: number
+  /**
+   * Number of boxes to return in each slice, and in the merged result.
+   *
+   * Required for sliced inference, otherwise all candidate boxes of every slice would be merged.
+   */
+  maxOutputSize: number
+  /**
+   * coordinate space of the returned boxes, keypoints and masks.
+   *
+   * default: `'source'`
+   */
+  coordinate?: Exclude<CoordinateSpace, 'input'>
+}
+
+/** area of a slice, in source pixel unit */
+export type SliceRegion = {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export type SliceTile = {
+  /** index of the image in the input batch */
+  batch_index: number
+  region: SliceRegion
+  /** map the detections from input_shape pixel unit of the slice to the whole image */
+  transform: InputTransform
+}
+
+/**
+ * split the image into overlapping slices.
+ *
+ * The last slice of each row and column is aligned to the image border,
+ * so all slices have the same size unless the image is smaller than slice_shape.
+ */
+export function getSliceRegions(
+  image_shape: ImageSize,
+  slice_shape: ImageSize,
+  /** default: `0.2` */
+  overlap_ratio: number = 0.2,
+): SliceRegion[] {
+  if (!(overlap_ratio >= 0 && overlap_ratio < 1)) {
+    throw new Error(
+      `overlap_ratio should be in the range of [0, 1), but got ${overlap_ratio}`,
+    )
+  }
+  let width = Math.min(slice_shape.width, image_shape.width)
+  let height = Math.min(slice_shape.height, image_shape.height)
+  let regions: SliceRegion[] = []
+  for (let top of getSliceOffsets(image_shape.height, height, overlap_ratio)) {
+    for (let left of getSliceOffsets(image_shape.width, width, overlap_ratio)) {
+      regions.push({ left, top, width, height })
+    }
+  }
+  return regions
+}
+
+function getSliceOffsets(
+  image_size: number,
+  slice_size: number,
+  overlap_ratio: number,
+): number[] {
+  let step = Math.max(1, Math.round(slice_size * (1 - overlap_ratio)))
+  let offsets: number[] = []
+  for (let offset = 0; offset + slice_size < image_size; offset += step) {
+    offsets.push(offset)
+  }
+  offsets.push(image_size - slice_size)
+  return offsets
+}
+
+/**
+ * same as `getInputTransform()` of the slice,
+ * but mapping to the pixel unit of the whole image.
+ */
+export function getSliceTransform(
+  region: SliceRegion,
+  source_shape: ImageSize,
+  input_shape: ImageSize,
+  /** default: `'stretch'` */
+  resize_mode?: ResizeMode,
+): InputTransform {
+  let transform = getInputTransform(
+    { width: region.width, height: region.height },
+    input_shape,
+    resize_mode,
+  )
+  return {
+    ...transform,
+    source_shape,
+    pad_left: transform.pad_left - region.left * transform.scale_x,
+    pad_top: transform.pad_top - region.top * transform.scale_y,
+  }
+}
+
+/** the slices of all images in the batch, including the whole images when `full_image` is enabled */
+export function getSliceTiles(
+  args: SliceArgs & { resize_mode?: ResizeMode },
+  image_shape: ImageSize,
+  input_shape: ImageSize,
+  num_images: number,
+): SliceTile[] {
+  let regions = getSliceRegions(
+    image_shape,
+    args.slice_shape || input_shape,
+    args.overlap_ratio,
+  )
+  let is_whole_image =
+    regions.length === 1 &&
+    regions[0].width === image_shape.width &&
+    regions[0].height === image_shape.height
+  if (args.full_image !== false && !is_whole_image) {
+    regions.unshift({ left: 0, top: 0, ...image_shape })
+  }
+  let tiles: SliceTile[] = []
+  for (let batch_index = 0; batch_index < num_images; batch_index++) {
+    for (let region of regions) {
+      let transform = getSliceTransform(
+        region,
+        image_shape,
+        input_shape,
+        args.resize_mode,
+      )
+      tiles.push({ batch_index, region, transform })
+    }
+  }
+  return tiles
+}
+
+/**
+ * resolve the number of slices per `model.predict()` call.
+ *
+ * When the batch size of the model input is fixed, the last batch should be padded.
+ */
+export function getSliceBatchSize(
+  args: { batch_size?: number },
+  model: tf_type.InferenceModel,
+): { batch_size: number; fixed: boolean } {
+  let model_batch_size = model.inputs[0].shape?.[0]
+  if (model_batch_size && model_batch_size > 0) {
+    if (args.batch_size && args.batch_size !== model_batch_size) {
+      throw new Error(
+        `batch_size should be ${model_batch_size} to match the model input, but got ${args.batch_size}`,
+      )
+    }
+    return { batch_size: model_batch_size, fixed: true }
+  }
+  let batch_size = args.batch_size ?? 4
+  if (!(batch_size >= 1)) {
+    throw new Error(`batch_size should be at least 1, but got ${batch_size}`)
+  }
+  return { batch_size, fixed: false }
+}
+
+/**
+ * crop and preprocess the slices into a batch of input.
+ *
+ * output shape: [batch_size, input_height, input_width, channels]
+ *
+ * Should be called within `tf.tidy()`.
+ */
+export function sliceInput(args: {
+  tf: typeof tf_type
+  /**
+   * input shape: [height, width, channels] or [batch, height, width, channels]
+   *
+   * the pixel values should be in the range of [0, 255]
+   */
+  input: tf_type.Tensor
+  tiles: SliceTile[]
+  input_shape: ImageSize
+  /** default: `'stretch'` */
+  resize_mode?: ResizeMode
+  /** pad the batch with empty images, default: number of tiles */
+  batch_size?: number
+}): tf_type.Tensor {
+  let { tf, input, tiles, input_shape } = args
+  if (input.rank === 3) {
+    input = input.expandDims()
+  }
+  let inputs = tiles.map(({ batch_index, region }) =>
+    preprocessInput(
+      input.slice(
+        [batch_index, region.top, region.left, 0],
+        [1, region.height, region.width, -1],
+      ),
+      input_shape,
+      args.resize_mode,
+    ),
+  )
+  let padding = (args.batch_size ?? tiles.length) - tiles.length
+  if (padding > 0) {
+    inputs.push(
+      tf.zeros([
+        padding,
+        input_shape.height,
+        input_shape.width,
+        input.shape[3]!,
+      ]),
+    )
+  }
+  return inputs.length === 1 ? inputs[0] : tf.concat(inputs)
+}
+
+/**
+ * merge the duplicated detections across the slices,
+ * keeping the detection with highest confidence.
+ *
+ * returns the merged boxes, sorted by confidence in descending order.
+ */
+export function mergeSlicedBoxes<T extends BoundingBox>(
+  boxes: T[],
+  args: {
+    maxOutputSize: number
+    /** default: `'ios'` */
+    merge_metric?: 'ios' | 'iou'
+    /** default: `0.5` */
+    merge_threshold?: number
+    /** default: `'agnostic'` */
+    nms?: NmsMode
+  },
+): T[] {
+  let calcOverlap = args.merge_metric === 'iou' ? calcIoU : calcIoS
+  let merge_threshold = args.merge_threshold ?? 0.5
+  let per_class = args.nms === 'per-class'
+
+  boxes = boxes.slice().sort((a, b) => b.confidence - a.confidence)
+
+  let selected: T[] = []
+  let selected_corners: BoxCorners[] = []
+  for (let box of boxes) {
+    if (selected.length >= args.maxOutputSize) {
+      break
+    }
+    let corners = toBoxCorners(box)
+    let duplicated = selected.some(
+      (other, i) =>
+        (!per_class || other.class_index === box.class_index) &&
+        calcOverlap(corners, selected_corners[i]) > merge_threshold,
+    )
+    if (!duplicated) {
+      selected.push(box)
+      selected_corners.push(corners)
+    }
+  }
+  return selected
+}
+
+function toBoxCorners(box: BoundingBox): BoxCorners {
+  return [
+    box.x - box.width / 2,
+    box.y - box.height / 2,
+    box.x + box.width / 2,
+    box.y + box.height / 2,
+  ]
+}
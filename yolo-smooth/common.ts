@@ -0,0 +1,256 @@
+import { BoundingBox } from '../yolo-box/common'
+import { BoundingBoxWithKeypoints, Keypoint } from '../yolo-pose/common'
+
+export type SmootherOptions = {
+  /**
+   * - `'one-euro'`: One Euro filter, smooth at low speed and less lag at high speed
+   * - `'ema'`: exponential moving average with fixed `alpha`
+   *
+   * default: `'one-euro'`
+   */
+  filter?: 'one-euro' | 'ema'
+  /**
+   * minimum cutoff frequency (in Hz) of the One Euro filter,
+   * lower value is smoother but has more lag when moving slowly.
+   *
+   * default: `1`
+   */
+  min_cutoff?: number
+  /**
+   * speed coefficient of the One Euro filter,
+   * higher value has less lag when moving fast.
+   *
+   * The speed is in coordinate unit per second, so it should be tuned for `'normalized'` coordinate.
+   *
+   * default: `0.01`
+   */
+  beta?: number
+  /**
+   * cutoff frequency (in Hz) of the speed in the One Euro filter.
+   *
+   * default: `1`
+   */
+  derivative_cutoff?: number
+  /**
+   * weight of the new value in the exponential moving average, in the range of (0, 1].
+   *
+   * default: `0.5`
+   */
+  alpha?: number
+  /**
+   * keypoints with visibility below this threshold are treated as occluded,
+   * their position is held at the smoothed value without being updated.
+   *
+   * default: `0.5`
+   */
+  visibility_threshold?: number
+  /**
+   * frame rate of the video stream, used when `timestamp` is not specified.
+   *
+   * default: `30`
+   */
+  fps?: number
+}
+
+export type Smoother<T extends BoundingBox = BoundingBox> = {
+  /**
+   * smooth the boxes (and keypoints if any) of the next frame.
+   *
+   * returns the smoothed copies, the input boxes are not modified.
+   *
+   * The states of the keys not present in this frame are removed.
+   */
+  update(
+    boxes: T[],
+    args?: {
+      /**
+       * key of each box, e.g. `track_id` from `createBoxTracker()`
+       *
+       * default: index of the box
+       */
+      keys?: (number | string)[]
+      /**
+       * timestamp of the frame in milliseconds, e.g. `performance.now()`
+       *
+       * default: `1000 / fps` after the previous frame
+       */
+      timestamp?: number
+    },
+  ): T[]
+  /** remove the state of the given key, or all keys if not specified */
+  reset(key?: number | string): void
+}
+
+/**
+ * Temporal smoother of the box geometry and keypoints, to reduce the jitter in video streams.
+ *
+ * Works with `BoundingBox` and `BoundingBoxWithKeypoints`.
+ *
+ * @example
+ * ```
+ * let smoother = createSmoother<BoundingBoxWithKeypoints>()
+ * for each frame:
+ *   let poses = await detectPose({ ... })
+ *   let smoothed_poses = smoother.update(poses[0])
+ * ```
+ */
+export function createSmoother<T extends BoundingBox = BoundingBox>(
+  options: SmootherOptions = {},
+): Smoother<T> {
+  let visibility_threshold = options.visibility_threshold ?? 0.5
+  let frame_interval = 1000 / (options.fps ?? 30)
+
+  let states = new Map<number | string, SmoothState>()
+  let last_timestamp = 0
+
+  function createFilter(): ScalarFilter {
+    return options.filter === 'ema'
+      ? createEmaFilter(options.alpha ?? 0.5)
+      : createOneEuroFilter(options)
+  }
+
+  function update(
+    boxes: T[],
+    args: { keys?: (number | string)[]; timestamp?: number } = {},
+  ): T[] {
+    let timestamp = args.timestamp ?? last_timestamp + frame_interval
+    last_timestamp = timestamp
+
+    let keys = args.keys ?? boxes.map((_, i) => i)
+    if (keys.length !== boxes.length) {
+      throw new Error(
+        `expect ${boxes.length} keys, but got ${keys.length} keys`,
+      )
+    }
+
+    let new_states = new Map<number | string, SmoothState>()
+    let result = boxes.map((box, i) => {
+      let state = states.get(keys[i]) || {
+        box: [createFilter(), createFilter(), createFilter(), createFilter()],
+        keypoints: [],
+      }
+      new_states.set(keys[i], state)
+
+      let smoothed: T = {
+        ...box,
+        x: state.box[0].update(box.x, timestamp),
+        y: state.box[1].update(box.y, timestamp),
+        width: state.box[2].update(box.width, timestamp),
+        height: state.box[3].update(box.height, timestamp),
+      }
+
+      let { keypoints } = box as Partial<BoundingBoxWithKeypoints>
+      if (keypoints) {
+        let smoothed_keypoints = keypoints.map((keypoint, j): Keypoint => {
+          let filters = state.keypoints[j]
+          if (!filters) {
+            filters = { x: createFilter(), y: createFilter() }
+            state.keypoints[j] = filters
+          }
+          if (
+            keypoint.visibility < visibility_threshold &&
+            filters.x.value !== undefined &&
+            filters.y.value !== undefined
+          ) {
+            // occluded, hold at the smoothed position
+            return { ...keypoint, x: filters.x.value, y: filters.y.value }
+          }
+          return {
+            ...keypoint,
+            x: filters.x.update(keypoint.x, timestamp),
+            y: filters.y.update(keypoint.y, timestamp),
+          }
+        })
+        Object.assign(smoothed, { keypoints: smoothed_keypoints })
+      }
+
+      return smoothed
+    })
+    states = new_states
+    return result
+  }
+
+  function reset(key?: number | string) {
+    if (key === undefined) {
+      states.clear()
+    } else {
+      states.delete(key)
+    }
+  }
+
+  return { update, reset }
+}
+
+type SmoothState = {
+  /** x, y, width, height */
+  box: ScalarFilter[]
+  keypoints: { x: ScalarFilter; y: ScalarFilter }[]
+}
+
+type ScalarFilter = {
+  /** latest smoothed value */
+  value?: number
+  /** returns the smoothed value */
+  update(value: number, timestamp: number): number
+}
+
+function createEmaFilter(alpha: number): ScalarFilter {
+  let filter: ScalarFilter = {
+    update(value) {
+      filter.value =
+        filter.value === undefined ? value : lerp(filter.value, value, alpha)
+      return filter.value
+    },
+  }
+  return filter
+}
+
+/**
+ * One Euro filter: a low-pass filter with cutoff frequency adapted to the speed.
+ *
+ * reference: https://gery.casiez.net/1euro/
+ */
+function createOneEuroFilter(options: SmootherOptions): ScalarFilter {
+  let min_cutoff = options.min_cutoff ?? 1
+  let beta = options.beta ?? 0.01
+  let derivative_cutoff = options.derivative_cutoff ?? 1
+
+  let derivative = 0
+  let last_timestamp = 0
+
+  let filter: ScalarFilter = {
+    update(value, timestamp) {
+      if (filter.value === undefined) {
+        filter.value = value
+        last_timestamp = timestamp
+        return value
+      }
+      // in seconds
+      let dt = (timestamp - last_timestamp) / 1000
+      if (!(dt > 0)) {
+        return filter.value
+      }
+      last_timestamp = timestamp
+
+      let speed = (value - filter.value) / dt
+      derivative = lerp(
+        derivative,
+        speed,
+        smoothingFactor(derivative_cutoff, dt),
+      )
+      let cutoff = min_cutoff + beta * Math.abs(derivative)
+      filter.value = lerp(filter.value, value, smoothingFactor(cutoff, dt))
+      return filter.value
+    },
+  }
+  return filter
+}
+
+function smoothingFactor(cutoff: number, dt: number): number {
+  let tau = 1 / (2 * Math.PI * cutoff)
+  return 1 / (1 + tau / dt)
+}
+
+function lerp(from: number, to: number, alpha: number): number {
+  return from + (to - from) * alpha
+}
@@ -0,0 +1,401 @@
+import { BoundingBox, BoxCorners, calcIoU } from '../yolo-box/common'
+
+/**
+ * A tracked object across the frames of a video stream.
+ *
+ * The `detection` can be any result extending `BoundingBox`,
+ * e.g. `BoundingBoxWithKeypoints` from `detectPose()`.
+ */
+export type Track<T extends BoundingBox = BoundingBox> = {
+  /** stable id of the track, starting from `1` */
+  track_id: number
+  /**
+   * - `'tentative'`: newly created, not confirmed by enough frames yet
+   * - `'tracked'`: matched with a detection in the latest frame
+   * - `'lost'`: not matched in the latest frame, kept for re-identification until `max_lost_frames`
+   */
+  state: 'tentative' | 'tracked' | 'lost'
+  /** latest matched detection */
+  detection: T
+  /** Kalman filtered box, or the predicted box when the track is lost */
+  box: { x: number; y: number; width: number; height: number }
+  /** moving speed of the box center, in pixel per frame */
+  velocity: { x: number; y: number }
+  /** class index of the latest matched detection */
+  class_index: number
+  /** confidence of the latest matched detection */
+  confidence: number
+  /** number of frames since the track is created */
+  age: number
+  /** number of frames matched with a detection */
+  hits: number
+  /** number of consecutive frames not matched with a detection */
+  lost_frames: number
+}
+
+export type TrackerOptions = {
+  /**
+   * - `'bytetrack'`: associate the high score detections first,
+   *   then recover the unmatched tracks with the low score detections
+   * - `'sort'`: only associate the high score detections
+   *
+   * default: `'bytetrack'`
+   */
+  algorithm?: 'bytetrack' | 'sort'
+  /**
+   * detections with confidence above this threshold are associated first.
+   *
+   * default: `0.5`
+   */
+  high_threshold?: number
+  /**
+   * detections with confidence below this threshold are ignored,
+   * only used by `'bytetrack'`.
+   *
+   * default: `0.1`
+   */
+  low_threshold?: number
+  /**
+   * unmatched detections with confidence above this threshold start new tracks.
+   *
+   * default: `0.6`
+   */
+  new_track_threshold?: number
+  /**
+   * the minimum IoU between the predicted box of a track and the high score detection to be matched.
+   *
+   * default: `0.2`
+   */
+  match_iou?: number
+  /**
+   * the minimum IoU between the predicted box of a track and the low score detection to be matched.
+   *
+   * default: `0.5`
+   */
+  low_match_iou?: number
+  /**
+   * number of matched frames to confirm a new track.
+   * Tracks created in the first frame are confirmed immediately.
+   *
+   * default: `2`
+   */
+  min_hits?: number
+  /**
+   * number of frames to keep a lost track before removing it.
+   *
+   * default: `30`
+   */
+  max_lost_frames?: number
+  /**
+   * whether to only match the detections of the same class as the track.
+   *
+   * default: `false`
+   */
+  per_class?: boolean
+}
+
+export type BoxTracker<T extends BoundingBox = BoundingBox> = {
+  /**
+   * associate the detections of the next frame with the existing tracks.
+   *
+   * returns the tentative, tracked and lost tracks, sorted by track_id.
+   */
+  update(detections: T[]): Track<T>[]
+  /** remove all tracks and restart the track_id from `1` */
+  reset(): void
+}
+
+/**
+ * Multi-object tracker with Kalman filter prediction and IoU-based association,
+ * following ByteTrack (or SORT).
+ *
+ * @example
+ * ```
+ * let tracker = createBoxTracker()
+ * for each frame:
+ *   let boxes = await detectBox({ ... })
+ *   let tracks = tracker.update(boxes[0])
+ * ```
+ */
+export function createBoxTracker<T extends BoundingBox = BoundingBox>(
+  options: TrackerOptions = {},
+): BoxTracker<T> {
+  let algorithm = options.algorithm ?? 'bytetrack'
+  let high_threshold = options.high_threshold ?? 0.5
+  let low_threshold = options.low_threshold ?? 0.1
+  let new_track_threshold = options.new_track_threshold ?? 0.6
+  let match_iou = options.match_iou ?? 0.2
+  let low_match_iou = options.low_match_iou ?? 0.5
+  let min_hits = options.min_hits ?? 2
+  let max_lost_frames = options.max_lost_frames ?? 30
+  let per_class = options.per_class ?? false
+
+  let tracks: TrackState<T>[] = []
+  let next_track_id = 1
+  let frame_count = 0
+
+  function associate(
+    candidates: TrackState<T>[],
+    detections: T[],
+    min_iou: number,
+  ) {
+    return matchByIoU(
+      candidates.map(track => toBoxCorners(getKalmanBox(track.filters))),
+      detections.map(toBoxCorners),
+      min_iou,
+      (i, j) =>
+        !per_class || candidates[i].class_index === detections[j].class_index,
+    )
+  }
+
+  function update(detections: T[]): Track<T>[] {
+    frame_count++
+
+    let high_detections: T[] = []
+    let low_detections: T[] = []
+    for (let detection of detections) {
+      if (detection.confidence >= high_threshold) {
+        high_detections.push(detection)
+      } else if (
+        algorithm === 'bytetrack' &&
+        detection.confidence >= low_threshold
+      ) {
+        low_detections.push(detection)
+      }
+    }
+
+    for (let track of tracks) {
+      predictKalman(track.filters)
+      track.age++
+    }
+
+    // first association: confirmed tracks with high score detections
+    let confirmed = tracks.filter(track => track.state !== 'tentative')
+    let tentative = tracks.filter(track => track.state === 'tentative')
+    if (algorithm === 'sort') {
+      confirmed = tracks
+      tentative = []
+    }
+    let first = associate(confirmed, high_detections, match_iou)
+    for (let [i, j] of first.matches) {
+      updateTrack(confirmed[i], high_detections[j], min_hits)
+    }
+
+    // second association: remaining tracked tracks with low score detections
+    let remaining = first.unmatched_a
+      .map(i => confirmed[i])
+      .filter(track => track.state === 'tracked')
+    let second = associate(remaining, low_detections, low_match_iou)
+    for (let [i, j] of second.matches) {
+      updateTrack(remaining[i], low_detections[j], min_hits)
+    }
+    let matched = new Set<TrackState<T>>()
+    for (let [i] of first.matches) matched.add(confirmed[i])
+    for (let [i] of second.matches) matched.add(remaining[i])
+
+    // third association: tentative tracks with the remaining high score detections
+    let unmatched_detections = first.unmatched_b.map(j => high_detections[j])
+    let third = associate(tentative, unmatched_detections, match_iou)
+    for (let [i, j] of third.matches) {
+      updateTrack(tentative[i], unmatched_detections[j], min_hits)
+      matched.add(tentative[i])
+    }
+
+    let removed = new Set<TrackState<T>>()
+    for (let track of tracks) {
+      if (matched.has(track)) continue
+      track.lost_frames++
+      if (track.state === 'tentative' || track.lost_frames > max_lost_frames) {
+        removed.add(track)
+      } else {
+        track.state = 'lost'
+      }
+    }
+    tracks = tracks.filter(track => !removed.has(track))
+
+    for (let j of third.unmatched_b) {
+      let detection = unmatched_detections[j]
+      if (detection.confidence < new_track_threshold) continue
+      let state: Track['state'] =
+        frame_count === 1 || min_hits <= 1 ? 'tracked' : 'tentative'
+      tracks.push({
+        track_id: next_track_id++,
+        state,
+        detection,
+        class_index: detection.class_index,
+        confidence: detection.confidence,
+        age: 1,
+        hits: 1,
+        lost_frames: 0,
+        filters: initKalman(detection),
+      })
+    }
+
+    return tracks.map(toTrack)
+  }
+
+  function reset() {
+    tracks = []
+    next_track_id = 1
+    frame_count = 0
+  }
+
+  return { update, reset }
+}
+
+type TrackState<T extends BoundingBox> = Omit<Track<T>, 'box' | 'velocity'> & {
+  /** x, y, width, height */
+  filters: KalmanFilter[]
+}
+
+function updateTrack<T extends BoundingBox>(
+  track: TrackState<T>,
+  detection: T,
+  min_hits: number,
+) {
+  updateKalman(track.filters, detection)
+  track.detection = detection
+  track.class_index = detection.class_index
+  track.confidence = detection.confidence
+  track.hits++
+  track.lost_frames = 0
+  if (track.state !== 'tentative' || track.hits >= min_hits) {
+    track.state = 'tracked'
+  }
+}
+
+function toTrack<T extends BoundingBox>(track: TrackState<T>): Track<T> {
+  let { filters, ...rest } = track
+  return {
+    ...rest,
+    box: getKalmanBox(filters),
+    velocity: { x: filters[0].velocity, y: filters[1].velocity },
+  }
+}
+
+/**
+ * greedy matching by highest IoU.
+ *
+ * returns the matched pairs of indices, and the unmatched indices of each side.
+ */
+function matchByIoU(
+  a: BoxCorners[],
+  b: BoxCorners[],
+  min_iou: number,
+  canMatch: (i: number, j: number) => boolean,
+) {
+  let pairs: { i: number; j: number; iou: number }[] = []
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (!canMatch(i, j)) continue
+      let iou = calcIoU(a[i], b[j])
+      if (iou >= min_iou) {
+        pairs.push({ i, j, iou })
+      }
+    }
+  }
+  pairs.sort((x, y) => y.iou - x.iou)
+
+  let matched_a = new Set<number>()
+  let matched_b = new Set<number>()
+  let matches: [i: number, j: number][] = []
+  for (let { i, j } of pairs) {
+    if (matched_a.has(i) || matched_b.has(j)) continue
+    matched_a.add(i)
+    matched_b.add(j)
+    matches.push([i, j])
+  }
+
+  return {
+    matches,
+    unmatched_a: a.map((_, i) => i).filter(i => !matched_a.has(i)),
+    unmatched_b: b.map((_, j) => j).filter(j => !matched_b.has(j)),
+  }
+}
+
+function toBoxCorners(box: {
+  x: number
+  y: number
+  width: number
+  height: number
+}): BoxCorners {
+  return [
+    box.x - box.width / 2,
+    box.y - box.height / 2,
+    box.x + box.width / 2,
+    box.y + box.height / 2,
+  ]
+}
+
+/**
+ * Constant velocity Kalman filter of a single coordinate.
+ *
+ * The motion of x, y, width and height are independent,
+ * so the 8-dimension filter of SORT is split into 4 filters of [position, velocity].
+ */
+type KalmanFilter = {
+  position: number
+  velocity: number
+  /** covariance matrix: [[p, pv], [pv, v]] */
+  p: number
+  pv: number
+  v: number
+}
+
+// noise relative to the box size, same as BoT-SORT
+const std_weight_position = 1 / 20
+const std_weight_velocity = 1 / 160
+
+// x and width are scaled by width, y and height are scaled by height
+function getKalmanScales(box: { width: number; height: number }) {
+  return [box.width, box.height, box.width, box.height]
+}
+
+function initKalman(box: BoundingBox): KalmanFilter[] {
+  let values = [box.x, box.y, box.width, box.height]
+  return getKalmanScales(box).map((scale, i) => ({
+    position: values[i],
+    velocity: 0,
+    p: (2 * std_weight_position * scale) ** 2,
+    pv: 0,
+    v: (10 * std_weight_velocity * scale) ** 2,
+  }))
+}
+
+function predictKalman(filters: KalmanFilter[]) {
+  let scales = getKalmanScales(getKalmanBox(filters))
+  filters.forEach((filter, i) => {
+    filter.position += filter.velocity
+    // P = F P F^T + Q, where F = [[1, 1], [0, 1]]
+    filter.p +=
+      2 * filter.pv + filter.v + (std_weight_position * scales[i]) ** 2
+    filter.pv += filter.v
+    filter.v += (std_weight_velocity * scales[i]) ** 2
+  })
+}
+
+function updateKalman(filters: KalmanFilter[], box: BoundingBox) {
+  let values = [box.x, box.y, box.width, box.height]
+  let scales = getKalmanScales(getKalmanBox(filters))
+  filters.forEach((filter, i) => {
+    let residual = values[i] - filter.position
+    let s = filter.p + (std_weight_position * scales[i]) ** 2
+    let k_position = filter.p / s
+    let k_velocity = filter.pv / s
+    filter.position += k_position * residual
+    filter.velocity += k_velocity * residual
+    // P = (I - K H) P, where H = [1, 0]
+    filter.v -= k_velocity * filter.pv
+    filter.pv *= 1 - k_position
+    filter.p *= 1 - k_position
+  })
+}
+
+function getKalmanBox(filters: KalmanFilter[]) {
+  return {
+    x: filters[0].position,
+    y: filters[1].position,
+    width: filters[2].position,
+    height: filters[3].position,
+  }
+}